@@ -464,6 +464,13 @@ export class YellowSession {
         return this.appSessionId;
     }
 
+    /**
+     * Take over an App Session opened before a server restart so it can still be closed
+     */
+    resumeAppSession(appSessionId: string): void {
+        this.appSessionId = appSessionId as Hex;
+    }
+
     /**
      * Create a poker game App Session with specified players and allocations
      * @param participants Array of player wallet addresses
@@ -0,0 +1,101 @@
+/**
+ * Test helpers
+ * Tables with known stacks and stacked decks, so a hand plays out the same way every run
+ */
+
+import { applyAction, type GameAction, type GameEvent } from '../poker-engine';
+import { minimumBet, resolveTableConfig } from '../table-config';
+import type { Card, Game, ShuffledDeck, TableConfig } from '../types';
+
+const SUIT_LETTERS: Record<string, Card['suit']> = { h: 'hearts', d: 'diamonds', c: 'clubs', s: 'spades' };
+
+/**
+ * Parse cards written like 'As Kd 10c'
+ */
+export function cards(text: string): Card[] {
+    return text.split(' ').map(code => ({
+        rank: code.slice(0, -1) as Card['rank'],
+        suit: SUIT_LETTERS[code.slice(-1)],
+    }));
+}
+
+/**
+ * A deck that deals each player's hole cards in seat order, then the board
+ */
+export function stackedDeck(holeCards: string[], board: string): ShuffledDeck {
+    const dealOrder = [...holeCards.flatMap(hand => cards(hand)), ...cards(board)];
+    return { cards: dealOrder.reverse(), seed: 'test-seed', commitment: 'test-commitment' };
+}
+
+/**
+ * An online table with the button on the first seat, one player per stack
+ */
+export function createTestGame(stacks: number[], input: Partial<TableConfig> = {}): Game {
+    const config = resolveTableConfig({ buyInUsdc: 0, ...input });
+    return {
+        gameId: 'test-game',
+        gameType: 'online',
+        yellowSessionId: null,
+        players: stacks.map((chips, i) => ({
+            id: `p${i}`,
+            name: `Player ${i}`,
+            walletAddress: null,
+            chips,
+            bet: 0,
+            roundBet: 0,
+            hand: [],
+            folded: false,
+            isActive: true,
+            hasDealerChip: i === 0,
+            timeBankMs: 0,
+        })),
+        community: [],
+        pot: 0,
+        pots: [],
+        highBet: 0,
+        lastRaise: minimumBet(config),
+        phase: 'idle',
+        activePlayerIndex: 0,
+        buttonIndex: 0,
+        handNumber: 0,
+        minBet: minimumBet(config),
+        config,
+        deck: null,
+    };
+}
+
+/**
+ * Play a hand through the engine, each action taken by whoever is to act
+ * Pass no deck for a trustless deal and act for the server as the players open cards
+ */
+export class TestHand {
+    game: Game;
+    events: GameEvent[] = [];
+
+    constructor(game: Game, deck: ShuffledDeck | null) {
+        this.game = game;
+        this.act({ type: 'startHand', deck });
+    }
+
+    get actor(): string {
+        return this.game.players[this.game.activePlayerIndex].id;
+    }
+
+    chips(): number[] {
+        return this.game.players.map(p => p.chips);
+    }
+
+    fold(): this { return this.act({ type: 'fold', playerId: this.actor }); }
+    check(): this { return this.act({ type: 'check', playerId: this.actor }); }
+    call(): this { return this.act({ type: 'call', playerId: this.actor }); }
+    bet(amount: number): this { return this.act({ type: 'bet', playerId: this.actor, amount }); }
+    raise(amount: number): this { return this.act({ type: 'raise', playerId: this.actor, amount }); }
+    allIn(): this { return this.act({ type: 'allIn', playerId: this.actor }); }
+
+    act(action: GameAction): this {
+        const result = applyAction(this.game, action);
+        this.game = result.game;
+        this.events.push(...result.events);
+        return this;
+    }
+}
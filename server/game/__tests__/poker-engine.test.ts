@@ -0,0 +1,164 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { cards, createTestGame, stackedDeck, TestHand } from './helpers';
+
+// Seat 0 has the button, seat 1 the small blind and seat 2 the big blind,
+// so seat 0 acts first preflop and seat 1 first after the flop
+const RAINBOW_BOARD = '2c 7d 9h 4s 3c';
+
+describe('side pots', () => {
+    it('pays each pot to the best hand among the players who covered it', () => {
+        const deck = stackedDeck(['Qs Qh', 'Ks Kh', 'As Ah'], RAINBOW_BOARD);
+        const hand = new TestHand(createTestGame([500, 300, 100]), deck)
+            .allIn()
+            .allIn()
+            .allIn();
+
+        assert.equal(hand.game.phase, 'showdown');
+        // Aces win the 300 main pot, kings the 400 side pot and the uncovered 200 goes back
+        assert.deepEqual(hand.chips(), [200, 400, 300]);
+    });
+
+    it('leaves a folded player\'s chips in the pots they went into', () => {
+        const deck = stackedDeck(['Qs Qh', 'Ks Kh', 'As Ah'], RAINBOW_BOARD);
+        const hand = new TestHand(createTestGame([1000, 1000, 100]), deck)
+            .raise(200)
+            .call()
+            .allIn();
+
+        assert.deepEqual(hand.game.pots.map(p => p.amount), [300, 200]);
+        hand.check().bet(100).fold();
+
+        // The big blind's aces take the 300 main pot, seat 0 the side pot seat 1 folded out of
+        assert.deepEqual(hand.chips(), [1000, 800, 300]);
+    });
+});
+
+describe('fixed-limit betting', () => {
+    it('raises in steps of the small bet and caps the street at a bet and three raises', () => {
+        const hand = new TestHand(createTestGame([1000, 1000, 1000], { bettingStructure: 'fixed-limit' }), stackedDeck(['Qs Qh', 'Ks Kh', 'As Ah'], RAINBOW_BOARD));
+
+        assert.throws(() => hand.raise(60), { code: 'ABOVE_BET_LIMIT' });
+        assert.throws(() => hand.raise(30), { code: 'BELOW_MIN_RAISE' });
+
+        hand.raise(40).raise(60).raise(80);
+        assert.throws(() => hand.raise(100), { code: 'ABOVE_BET_LIMIT' });
+        assert.throws(() => hand.allIn(), { code: 'ABOVE_BET_LIMIT' });
+        hand.call().call();
+
+        assert.equal(hand.game.phase, 'betting2');
+        assert.equal(hand.game.pot, 240);
+    });
+
+    it('doubles the bet on the turn', () => {
+        const hand = new TestHand(createTestGame([1000, 1000, 1000], { bettingStructure: 'fixed-limit' }), stackedDeck(['Qs Qh', 'Ks Kh', 'As Ah'], RAINBOW_BOARD))
+            .call()
+            .call()
+            .check()
+            .check()
+            .check()
+            .check();
+
+        assert.equal(hand.game.phase, 'betting3');
+        assert.throws(() => hand.bet(20), { code: 'BELOW_MIN_BET' });
+        hand.bet(40);
+        assert.equal(hand.game.highBet, 40);
+    });
+});
+
+describe('pot-limit betting', () => {
+    it('caps a raise at the pot after calling', () => {
+        const hand = new TestHand(createTestGame([1000, 1000, 1000], { bettingStructure: 'pot-limit' }), stackedDeck(['Qs Qh', 'Ks Kh', 'As Ah'], RAINBOW_BOARD));
+
+        // 30 in the blinds plus the 20 to call makes a 50 raise on top of the 20
+        assert.throws(() => hand.raise(80), { code: 'ABOVE_POT_LIMIT' });
+        assert.throws(() => hand.allIn(), { code: 'ABOVE_POT_LIMIT' });
+        hand.raise(70);
+
+        // 100 in the pot plus the 60 to call on top of the 70
+        assert.throws(() => hand.raise(231), { code: 'ABOVE_POT_LIMIT' });
+        hand.raise(230);
+        assert.equal(hand.game.highBet, 230);
+    });
+});
+
+describe('short all-in raises', () => {
+    it('does not reopen the betting for players who already acted', () => {
+        const hand = new TestHand(createTestGame([1000, 1000, 90]), stackedDeck(['Qs Qh', 'Ks Kh', 'As Ah'], RAINBOW_BOARD))
+            .raise(60)
+            .call()
+            .allIn();
+
+        // The big blind's all-in to 90 is 30 more, short of the 40 raise before it
+        assert.equal(hand.actor, 'p0');
+        assert.throws(() => hand.raise(200), { code: 'RAISE_NOT_ALLOWED' });
+        assert.throws(() => hand.allIn(), { code: 'RAISE_NOT_ALLOWED' });
+        hand.call();
+        assert.throws(() => hand.raise(200), { code: 'RAISE_NOT_ALLOWED' });
+        hand.call();
+
+        assert.equal(hand.game.phase, 'betting2');
+        assert.equal(hand.game.pot, 270);
+    });
+
+    it('lets players who have not acted yet raise', () => {
+        // Four-handed the player after the big blind opens, then the button goes all-in short
+        const hand = new TestHand(createTestGame([90, 1000, 1000, 1000]), stackedDeck(['Qs Qh', 'Js Jh', 'Ks Kh', 'As Ah'], RAINBOW_BOARD))
+            .raise(60)
+            .allIn();
+
+        assert.equal(hand.actor, 'p1');
+        hand.raise(300);
+        assert.equal(hand.game.highBet, 300);
+    });
+});
+
+describe('trustless reveals', () => {
+    const FLOP = cards('2c 7d 9h');
+
+    function trustlessHand(): TestHand {
+        return new TestHand(createTestGame([1000, 1000, 1000], { dealMode: 'trustless' }), null)
+            .act({ type: 'holesDealt' });
+    }
+
+    it('calls the hand off and returns the bets when only a folded player withholds board keys', () => {
+        const hand = trustlessHand()
+            .call()
+            .call()
+            .check()
+            .act({ type: 'communityRevealed', cards: FLOP })
+            .bet(40)
+            .call()
+            .fold();
+
+        assert.equal(hand.game.pendingReveal?.kind, 'community');
+        hand.act({ type: 'revealForfeited', playerIds: ['p0'] });
+
+        assert.equal(hand.game.phase, 'showdown');
+        assert.equal(hand.game.winner?.reason, 'Hand called off, bets returned');
+        assert.deepEqual(hand.chips(), [1000, 1000, 1000]);
+    });
+
+    it('folds the players still in who withhold their keys', () => {
+        const hand = trustlessHand()
+            .fold()
+            .call()
+            .check()
+            .act({ type: 'revealForfeited', playerIds: ['p2'] });
+
+        assert.equal(hand.game.foldWinner?.id, 'p1');
+        assert.deepEqual(hand.chips(), [1000, 1020, 980]);
+    });
+
+    it('returns the bets when the cards do not open and nobody can be blamed', () => {
+        const hand = trustlessHand()
+            .raise(100)
+            .call()
+            .call()
+            .act({ type: 'revealFailed' });
+
+        assert.equal(hand.game.pendingReveal, null);
+        assert.deepEqual(hand.chips(), [1000, 1000, 1000]);
+        assert.throws(() => hand.act({ type: 'revealFailed' }), { code: 'INVALID_REVEAL' });
+    });
+});
@@ -0,0 +1,73 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildPots } from '../pots';
+import type { Player } from '../types';
+import { createTestGame, stackedDeck, TestHand } from './helpers';
+
+/**
+ * Players with these chips committed and left behind, folded when marked
+ */
+function committed(entries: { bet: number; chips: number; folded?: boolean }[]): Player[] {
+    const players = createTestGame(entries.map(() => 1000)).players;
+    return entries.map((entry, i) => ({ ...players[i], folded: false, ...entry }));
+}
+
+const BOARD = '2c 7d 9h 4s 3c';
+
+describe('buildPots', () => {
+    it('keeps the blinds in one main pot when nobody is all-in', () => {
+        const hand = new TestHand(createTestGame([1000, 1000, 1000]), stackedDeck(['Qs Qh', 'Ks Kh', 'As Ah'], BOARD));
+
+        assert.deepEqual(hand.game.pots, [{ amount: 30, eligiblePlayerIds: ['p0', 'p1', 'p2'] }]);
+        hand.raise(60);
+        assert.deepEqual(hand.game.pots, [{ amount: 90, eligiblePlayerIds: ['p0', 'p1', 'p2'] }]);
+    });
+
+    it('starts a side pot at each all-in player\'s total', () => {
+        const pots = buildPots(committed([
+            { bet: 500, chips: 400 },
+            { bet: 300, chips: 0 },
+            { bet: 100, chips: 0 },
+            { bet: 500, chips: 200 },
+        ]));
+
+        assert.deepEqual(pots, [
+            { amount: 400, eligiblePlayerIds: ['p0', 'p1', 'p2', 'p3'] },
+            { amount: 600, eligiblePlayerIds: ['p0', 'p1', 'p3'] },
+            { amount: 400, eligiblePlayerIds: ['p0', 'p3'] },
+        ]);
+    });
+
+    it('keeps players who can still bet in every pot while the street is open', () => {
+        // Four-handed the player after the big blind acts first
+        const hand = new TestHand(createTestGame([1000, 1000, 1000, 50]), stackedDeck(['Qs Qh', 'Ks Kh', 'As Ah', 'Js Jh'], BOARD))
+            .allIn()
+            .raise(200);
+
+        // The blinds have not answered the raise yet and can still win the side pot
+        assert.equal(hand.actor, 'p1');
+        assert.deepEqual(hand.game.pots, [
+            { amount: 130, eligiblePlayerIds: ['p0', 'p1', 'p2', 'p3'] },
+            { amount: 150, eligiblePlayerIds: ['p0', 'p1', 'p2'] },
+        ]);
+
+        hand.call().fold();
+        assert.deepEqual(hand.game.pots, [
+            { amount: 170, eligiblePlayerIds: ['p0', 'p1', 'p3'] },
+            { amount: 300, eligiblePlayerIds: ['p0', 'p1'] },
+        ]);
+    });
+
+    it('adds a folded player\'s chips to the pots they went into', () => {
+        const pots = buildPots(committed([
+            { bet: 300, chips: 700, folded: true },
+            { bet: 100, chips: 0 },
+            { bet: 200, chips: 0 },
+        ]));
+
+        assert.deepEqual(pots, [
+            { amount: 300, eligiblePlayerIds: ['p1', 'p2'] },
+            { amount: 300, eligiblePlayerIds: ['p2'] },
+        ]);
+    });
+});
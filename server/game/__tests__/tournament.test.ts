@@ -0,0 +1,64 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { GameEvent } from '../poker-engine';
+import { createTournament, recordKnockouts, resolveTournamentConfig, startTournament } from '../tournament';
+import type { Player } from '../types';
+import { createTestGame, stackedDeck, TestHand } from './helpers';
+
+function bustedPlayer(id: string, handStartChips: number): Player {
+    return { ...createTestGame([0]).players[0], id, name: id, chips: 0, handStartChips };
+}
+
+/**
+ * A running sit-and-go of 1 USDC entrants paying half the prize pool to the winner,
+ * 30% to second and 20% to third: 2, 1.2 and 0.8 USDC with four entrants
+ */
+function runningTournament(entrants = 4) {
+    const tournament = createTournament(resolveTournamentConfig({ buyIn: 1, payouts: [50, 30, 20] }));
+    startTournament(tournament, entrants, 0, 1);
+    return tournament;
+}
+
+describe('tournament knockouts', () => {
+    it('places players busted in the same hand by the stacks they started it with', () => {
+        const tournament = runningTournament();
+        const events: GameEvent[] = [];
+        recordKnockouts(tournament, [bustedPlayer('big', 800), bustedPlayer('small', 300)], 4, [], events);
+
+        assert.deepEqual(tournament.finishes.map(f => [f.playerId, f.position, f.prize]), [['small', 4, 0], ['big', 3, 0.8]]);
+        assert.deepEqual(events.map(e => e.type), ['playerEliminated', 'playerEliminated']);
+    });
+
+    it('ties equal stacks for the best place they cover and splits those prizes', () => {
+        const tournament = runningTournament();
+        recordKnockouts(tournament, [bustedPlayer('a', 500), bustedPlayer('b', 500)], 4, [], []);
+
+        assert.deepEqual(tournament.finishes.map(f => [f.playerId, f.position, f.prize]), [['a', 3, 0.4], ['b', 3, 0.4]]);
+    });
+
+    it('finishes the tournament when one player is left', () => {
+        const tournament = runningTournament();
+        recordKnockouts(tournament, [bustedPlayer('d', 100)], 4, [], []);
+        recordKnockouts(tournament, [bustedPlayer('c', 100)], 3, [], []);
+
+        const winner = { ...bustedPlayer('a', 3000), chips: 3000 };
+        const events: GameEvent[] = [];
+        recordKnockouts(tournament, [bustedPlayer('b', 1000)], 2, [winner], events);
+
+        assert.equal(tournament.status, 'finished');
+        assert.deepEqual(tournament.finishes.map(f => [f.playerId, f.position, f.prize]), [['d', 4, 0], ['c', 3, 0.8], ['b', 2, 1.2], ['a', 1, 2]]);
+        assert.deepEqual(events.at(-1), { type: 'tournamentFinished', winnerId: 'a', prize: 2 });
+    });
+
+    it('knocks out the players a sit-and-go hand busts when it ends', () => {
+        const game = { ...createTestGame([500, 300, 100]), tournament: runningTournament(3) };
+        const hand = new TestHand(game, stackedDeck(['As Ah', 'Ks Kh', 'Qs Qh'], '2c 7d 9h 4s 3c'))
+            .allIn()
+            .allIn()
+            .allIn();
+
+        assert.deepEqual(hand.events.filter(e => e.type === 'playerEliminated').map(e => e.playerId), ['p2', 'p1']);
+        assert.equal(hand.game.tournament?.status, 'finished');
+        assert.deepEqual(hand.game.tournament?.finishes.map(f => [f.playerId, f.position, f.prize]), [['p2', 3, 0.6], ['p1', 2, 0.9], ['p0', 1, 1.5]]);
+    });
+});
@@ -0,0 +1,36 @@
+/**
+ * Card and deck utilities
+ */
+
+import type { Card } from './types';
+
+export const SUITS: Card['suit'][] = ['hearts', 'diamonds', 'clubs', 'spades'];
+export const RANKS: Card['rank'][] = ['A', 'K', 'Q', 'J', '10', '9', '8', '7', '6', '5', '4', '3', '2'];
+
+// Short-deck plays with the twos through fives taken out, 36 cards
+export const SHORT_DECK_RANKS: Card['rank'][] = RANKS.slice(0, RANKS.indexOf('6') + 1);
+
+/**
+ * Create a deck in canonical order: suits in SUITS order, ranks in RANKS order
+ * Pass a subset of RANKS for a smaller deck, the full 52 cards by default
+ * Shuffle it with shuffleDeck from ./fairness before dealing
+ */
+export function createDeck(ranks: Card['rank'][] = RANKS): Card[] {
+    const deck: Card[] = [];
+
+    for (const suit of SUITS) {
+        for (const rank of RANKS.filter(r => ranks.includes(r))) {
+            deck.push({ suit, rank });
+        }
+    }
+
+    return deck;
+}
+
+export function getCardValue(rank: Card['rank']): number {
+    const values: Record<Card['rank'], number> = {
+        'A': 14, 'K': 13, 'Q': 12, 'J': 11, '10': 10,
+        '9': 9, '8': 8, '7': 7, '6': 6, '5': 5, '4': 4, '3': 3, '2': 2
+    };
+    return values[rank];
+}
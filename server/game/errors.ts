@@ -0,0 +1,40 @@
+/**
+ * Typed errors for actions the rules engine rejects
+ * The message is player-facing, the code lets clients react without parsing it
+ */
+
+export type ActionErrorCode =
+    | 'UNKNOWN_ACTION'
+    | 'PLAYER_NOT_FOUND'
+    | 'NO_BETTING_ROUND'
+    | 'NOT_YOUR_TURN'
+    | 'HAND_IN_PROGRESS'
+    | 'NOT_ENOUGH_PLAYERS'
+    | 'CANNOT_CHECK'
+    | 'NOTHING_TO_CALL'
+    | 'BET_ALREADY_MADE'
+    | 'NOTHING_TO_RAISE'
+    | 'INVALID_AMOUNT'
+    | 'INSUFFICIENT_CHIPS'
+    | 'BELOW_MIN_BET'
+    | 'BELOW_MIN_RAISE'
+    | 'RAISE_NOT_ALLOWED'
+    | 'ABOVE_POT_LIMIT'
+    | 'ABOVE_BET_LIMIT'
+    | 'INVALID_DEAL_MESSAGE'
+    | 'INVALID_SIGNATURE'
+    | 'INVALID_REVEAL'
+    | 'INVALID_CHAT'
+    | 'CHAT_RATE_LIMITED'
+    | 'TOURNAMENT_OVER'
+    | 'INVALID_TOURNAMENT';
+
+export class ActionError extends Error {
+    readonly code: ActionErrorCode;
+
+    constructor(code: ActionErrorCode, message: string) {
+        super(message);
+        this.name = 'ActionError';
+        this.code = code;
+    }
+}
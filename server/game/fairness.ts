@@ -0,0 +1,75 @@
+/**
+ * Provably fair shuffling
+ *
+ * Each hand is shuffled from a fresh 256-bit seed drawn from the OS CSPRNG.
+ * The SHA-256 hash of the seed is published before the deal and the seed is
+ * revealed once the hand is over, so anyone can rebuild the deck and check it.
+ *
+ * The shuffle must stay byte-for-byte identical to src/app/utils/fairness.ts:
+ * - random words: SHA-256 of `${seed}:${counter}` for counter 0, 1, 2, ...,
+ *   each digest read as eight big-endian uint32s
+ * - a value below n: rejection sampling, discard words >= floor(2^32 / n) * n
+ * - Fisher-Yates over createDeck() order, from the last index down to 1;
+ *   short-deck hands shuffle the 36-card createDeck(SHORT_DECK_RANKS)
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import type { Card, ShuffledDeck } from './types';
+import { createDeck, RANKS } from './cards';
+
+const WORD_RANGE = 0x100000000;
+
+function sha256(text: string): Buffer {
+    return createHash('sha256').update(text).digest();
+}
+
+export function createDeckSeed(): string {
+    return randomBytes(32).toString('hex');
+}
+
+export function commitToSeed(seed: string): string {
+    return sha256(seed).toString('hex');
+}
+
+/**
+ * Deterministic stream of uint32 words derived from a seed
+ */
+function* randomWords(seed: string): Generator<number> {
+    for (let counter = 0; ; counter++) {
+        const digest = sha256(`${seed}:${counter}`);
+        for (let offset = 0; offset < digest.length; offset += 4) {
+            yield digest.readUInt32BE(offset);
+        }
+    }
+}
+
+function uniformInt(words: Generator<number>, bound: number): number {
+    const limit = Math.floor(WORD_RANGE / bound) * bound;
+    for (;;) {
+        const word = words.next().value as number;
+        if (word < limit) return word % bound;
+    }
+}
+
+/**
+ * Fisher-Yates shuffle of a fresh deck driven by the seed
+ */
+export function shuffleDeck(seed: string, ranks: Card['rank'][] = RANKS): Card[] {
+    const deck = createDeck(ranks);
+    const words = randomWords(seed);
+
+    for (let i = deck.length - 1; i > 0; i--) {
+        const j = uniformInt(words, i + 1);
+        [deck[i], deck[j]] = [deck[j], deck[i]];
+    }
+
+    return deck;
+}
+
+/**
+ * Draw a new seed and shuffle a deck for the next hand
+ */
+export function createShuffledDeck(ranks: Card['rank'][] = RANKS): ShuffledDeck {
+    const seed = createDeckSeed();
+    return { cards: shuffleDeck(seed, ranks), seed, commitment: commitToSeed(seed) };
+}
@@ -0,0 +1,220 @@
+/**
+ * Hand evaluation for showdowns
+ *
+ * Every 5-card combination of hole and board cards the game allows is scored
+ * and the best one is kept. Scores are totally ordered: a higher score always beats a
+ * lower one and equal scores are a genuine tie.
+ */
+
+import type { Card } from './types';
+import { getCardValue } from './cards';
+
+export const HAND_CATEGORIES = [
+    'High Card',
+    'Pair',
+    'Two Pair',
+    'Three of a Kind',
+    'Straight',
+    'Flush',
+    'Full House',
+    'Four of a Kind',
+    'Straight Flush',
+] as const;
+
+export type HandCategory = typeof HAND_CATEGORIES[number];
+
+/**
+ * How hands rank against each other
+ */
+export interface HandRanking {
+    categories: readonly HandCategory[];  // Weakest first
+    wheel: number[];                      // The straight where the ace plays low, ace first
+}
+
+export const STANDARD_RANKING: HandRanking = {
+    categories: HAND_CATEGORIES,
+    wheel: [14, 5, 4, 3, 2],
+};
+
+// Without the twos through fives a flush is rarer than a full house, and the ace plays low under the six
+export const SHORT_DECK_RANKING: HandRanking = {
+    categories: ['High Card', 'Pair', 'Two Pair', 'Three of a Kind', 'Straight', 'Full House', 'Flush', 'Four of a Kind', 'Straight Flush'],
+    wheel: [14, 9, 8, 7, 6],
+};
+
+export interface HandRank {
+    score: number;                       // Totally ordered, higher wins
+    category: HandCategory;
+    handType: string;                    // Category name, 'Royal Flush' for the nut straight flush
+    description: string;                 // e.g. "Two Pair, Aces and Kings"
+    cards: Card[];                       // Best five cards, most significant first
+}
+
+// Card values are 2-14, so base 15 keeps every tiebreaker in its own digit
+const SCORE_BASE = 15;
+
+const VALUE_NAMES: Record<number, string> = {
+    14: 'Ace', 13: 'King', 12: 'Queen', 11: 'Jack', 10: 'Ten', 9: 'Nine',
+    8: 'Eight', 7: 'Seven', 6: 'Six', 5: 'Five', 4: 'Four', 3: 'Three', 2: 'Two'
+};
+
+function plural(value: number): string {
+    return value === 6 ? 'Sixes' : `${VALUE_NAMES[value]}s`;
+}
+
+/**
+ * Score exactly five cards
+ */
+export function evaluateFiveCards(cards: Card[], ranking: HandRanking = STANDARD_RANKING): HandRank {
+    if (cards.length !== 5) {
+        throw new Error(`Expected 5 cards, got ${cards.length}`);
+    }
+
+    // Group cards by value: largest group first, then highest value
+    const groups = new Map<number, Card[]>();
+    for (const card of cards) {
+        const value = getCardValue(card.rank);
+        groups.set(value, [...(groups.get(value) || []), card]);
+    }
+    const ordered = [...groups.entries()].sort((a, b) => b[1].length - a[1].length || b[0] - a[0]);
+    const counts = ordered.map(([, group]) => group.length);
+
+    const isFlush = cards.every(card => card.suit === cards[0].suit);
+
+    let straightHigh = 0;
+    let isWheel = false;
+    if (ordered.length === 5) {
+        const values = ordered.map(([value]) => value);
+        if (values[0] - values[4] === 4) {
+            straightHigh = values[0];
+        } else if (values.join() === ranking.wheel.join()) {
+            straightHigh = ranking.wheel[1]; // Wheel: the ace plays low
+            isWheel = true;
+        }
+    }
+
+    let category: HandCategory;
+    if (straightHigh && isFlush) category = 'Straight Flush';
+    else if (counts[0] === 4) category = 'Four of a Kind';
+    else if (counts[0] === 3 && counts[1] === 2) category = 'Full House';
+    else if (isFlush) category = 'Flush';
+    else if (straightHigh) category = 'Straight';
+    else if (counts[0] === 3) category = 'Three of a Kind';
+    else if (counts[0] === 2 && counts[1] === 2) category = 'Two Pair';
+    else if (counts[0] === 2) category = 'Pair';
+    else category = 'High Card';
+
+    let tiebreakers = ordered.map(([value]) => value);
+    let bestCards = ordered.flatMap(([, group]) => group);
+    if (straightHigh) {
+        tiebreakers = [straightHigh];
+        if (isWheel) {
+            bestCards = [...bestCards.slice(1), bestCards[0]];
+        }
+    }
+
+    let score = ranking.categories.indexOf(category);
+    for (let i = 0; i < 5; i++) {
+        score = score * SCORE_BASE + (tiebreakers[i] || 0);
+    }
+
+    const isRoyal = category === 'Straight Flush' && straightHigh === 14;
+
+    return {
+        score,
+        category,
+        handType: isRoyal ? 'Royal Flush' : category,
+        description: describeHand(category, tiebreakers, isRoyal),
+        cards: bestCards,
+    };
+}
+
+function describeHand(category: HandCategory, values: number[], isRoyal: boolean): string {
+    const [a, b] = values;
+    switch (category) {
+        case 'Straight Flush':
+            return isRoyal ? 'Royal Flush' : `Straight Flush, ${VALUE_NAMES[a]} high`;
+        case 'Four of a Kind':
+            return `Four of a Kind, ${plural(a)}`;
+        case 'Full House':
+            return `Full House, ${plural(a)} full of ${plural(b)}`;
+        case 'Flush':
+            return `Flush, ${VALUE_NAMES[a]} high`;
+        case 'Straight':
+            return `Straight, ${VALUE_NAMES[a]} high`;
+        case 'Three of a Kind':
+            return `Three of a Kind, ${plural(a)}`;
+        case 'Two Pair':
+            return `Two Pair, ${plural(a)} and ${plural(b)}`;
+        case 'Pair':
+            return `Pair of ${plural(a)}`;
+        default:
+            return `High Card, ${VALUE_NAMES[a]}`;
+    }
+}
+
+function combinations<T>(items: T[], size: number): T[][] {
+    if (size === 0) return [[]];
+    if (items.length < size) return [];
+
+    const [first, ...rest] = items;
+    return [
+        ...combinations(rest, size - 1).map(combo => [first, ...combo]),
+        ...combinations(rest, size),
+    ];
+}
+
+/**
+ * Find the best five-card hand from hole cards and the board
+ */
+export function evaluateHand(hand: Card[], community: Card[], ranking: HandRanking = STANDARD_RANKING): HandRank {
+    const allCards = [...hand, ...community];
+    if (allCards.length < 5) {
+        throw new Error(`Need at least 5 cards to evaluate, got ${allCards.length}`);
+    }
+
+    let best: HandRank | null = null;
+    for (const combo of combinations(allCards, 5)) {
+        const rank = evaluateFiveCards(combo, ranking);
+        if (!best || rank.score > best.score) {
+            best = rank;
+        }
+    }
+
+    return best!;
+}
+
+/**
+ * Find the best short-deck hand: any five of seven, ranked with SHORT_DECK_RANKING
+ */
+export function evaluateShortDeckHand(hand: Card[], community: Card[]): HandRank {
+    return evaluateHand(hand, community, SHORT_DECK_RANKING);
+}
+
+/**
+ * Find the best Omaha hand: exactly two hole cards with exactly three from the board
+ */
+export function evaluateOmahaHand(hand: Card[], community: Card[]): HandRank {
+    if (hand.length < 2 || community.length < 3) {
+        throw new Error(`Need 2 hole cards and 3 board cards to evaluate, got ${hand.length} and ${community.length}`);
+    }
+
+    let best: HandRank | null = null;
+    for (const holePair of combinations(hand, 2)) {
+        for (const boardTriple of combinations(community, 3)) {
+            const rank = evaluateFiveCards([...holePair, ...boardTriple]);
+            if (!best || rank.score > best.score) {
+                best = rank;
+            }
+        }
+    }
+
+    return best!;
+}
+
+/**
+ * Compare two evaluated hands: positive if a wins, negative if b wins, 0 on a tie
+ */
+export function compareHands(a: HandRank, b: HandRank): number {
+    return a.score - b.score;
+}
@@ -0,0 +1,202 @@
+/**
+ * Hand history export in the PokerStars text format read by tracking tools
+ * Takes a record already projected for its reader, see projectHandHistory
+ */
+
+import type { BettingStructure, Card, HandHistory, HandHistoryAction, HandHistoryAward, HandHistoryPlayer, Street } from './types';
+import { streetFor } from './hand-history';
+import { VARIANTS } from './variants';
+import { minimumBet } from './table-config';
+
+const SUIT_LETTERS: Record<Card['suit'], string> = { hearts: 'h', diamonds: 'd', clubs: 'c', spades: 's' };
+
+const STREET_NAMES: Record<Street, string> = { preflop: 'Preflop', flop: 'Flop', turn: 'Turn', river: 'River' };
+
+const STRUCTURE_NAMES: Record<BettingStructure, string> = { 'no-limit': 'No Limit', 'pot-limit': 'Pot Limit', 'fixed-limit': 'Limit' };
+
+function formatCard(card: Card): string {
+    return `${card.rank === '10' ? 'T' : card.rank}${SUIT_LETTERS[card.suit]}`;
+}
+
+function formatCards(cards: Card[]): string {
+    return `[${cards.map(formatCard).join(' ')}]`;
+}
+
+// 2024/01/31 18:05:09 UTC
+function formatDate(timestamp: number): string {
+    const iso = new Date(timestamp).toISOString();
+    return `${iso.slice(0, 10).replace(/-/g, '/')} ${iso.slice(11, 19)} UTC`;
+}
+
+// Hold'em No Limit, Omaha Pot Limit, Hold'em Limit
+function gameName(config: HandHistory['config']): string {
+    // Hands recorded before tables had a variant were all Hold'em
+    const rules = VARIANTS[config.variant || 'holdem'];
+    return `${rules.name} ${STRUCTURE_NAMES[config.bettingStructure || rules.bettingStructure]}`;
+}
+
+// Blinds for big-bet games, the small and big bet for limit
+function stakes(config: HandHistory['config']): string {
+    if (config.bettingStructure === 'fixed-limit') {
+        return `${minimumBet(config)}/${minimumBet(config) * 2}`;
+    }
+    return `${config.smallBlind}/${config.bigBlind}`;
+}
+
+/**
+ * Trackers expect a numeric hand number that is unique across tables
+ */
+function numericHandId(history: HandHistory): string {
+    return `${history.startedAt}${String(history.handNumber).padStart(4, '0')}`;
+}
+
+function formatAction(action: HandHistoryAction, name: string, highBet: number): string {
+    const allIn = action.isAllIn ? ' and is all-in' : '';
+    switch (action.type) {
+        case 'ante': return `${name}: posts the ante ${action.amount}`;
+        case 'smallBlind': return `${name}: posts small blind ${action.amount}`;
+        case 'bigBlind': return `${name}: posts big blind ${action.amount}`;
+        case 'fold': return `${name}: folds`;
+        case 'check': return `${name}: checks`;
+        case 'call': return `${name}: calls ${action.amount}${allIn}`;
+        case 'bet': return `${name}: bets ${action.amount}${allIn}`;
+        case 'raise': return `${name}: raises ${action.roundBet - highBet} to ${action.roundBet}${allIn}`;
+    }
+}
+
+function streetHeader(street: Street, board: Card[]): string {
+    switch (street) {
+        case 'preflop': return '*** HOLE CARDS ***';
+        case 'flop': return `*** FLOP *** ${formatCards(board.slice(0, 3))}`;
+        case 'turn': return `*** TURN *** ${formatCards(board.slice(0, 3))} ${formatCards(board.slice(3, 4))}`;
+        case 'river': return `*** RIVER *** ${formatCards(board.slice(0, 4))} ${formatCards(board.slice(4, 5))}`;
+    }
+}
+
+/**
+ * The part of the last bet nobody called, which goes back to the player who made it
+ * Only the last street with any betting can leave one, against the next biggest total put in.
+ */
+function uncalledBet(history: HandHistory): { street: Street; playerId: string; amount: number } | null {
+    const streets: Street[] = ['river', 'turn', 'flop', 'preflop'];
+    const street = streets.find(s => history.actions.some(a => a.street === s && a.roundBet > 0));
+    if (!street) return null;
+
+    const totals = new Map<string, number>();
+    // Folds and checks are recorded with no round total, so keep each player's highest
+    history.actions.filter(a => a.street === street).forEach(a => totals.set(a.playerId, Math.max(totals.get(a.playerId) ?? 0, a.roundBet)));
+    const [top, next] = [...totals].sort((a, b) => b[1] - a[1]);
+    const amount = top[1] - (next?.[1] ?? 0);
+    return amount > 0 ? { street, playerId: top[0], amount } : null;
+}
+
+/**
+ * What each player collected once their uncalled bet is handed back
+ * The engine pays it out with the pot, as a side pot of its own if the hand was shown down
+ */
+function collectedAwards(history: HandHistory, uncalled: ReturnType<typeof uncalledBet>): HandHistoryAward[] {
+    let toReturn = uncalled?.amount ?? 0;
+    return [...history.awards].reverse()
+        .map(award => {
+            if (award.playerId !== uncalled?.playerId || toReturn === 0) return award;
+            const returned = Math.min(award.amount, toReturn);
+            toReturn -= returned;
+            return { ...award, amount: award.amount - returned };
+        })
+        .reverse()
+        .filter(award => award.amount > 0);
+}
+
+function potLabel(awards: HandHistoryAward[], potName: string): string {
+    const hasSidePots = awards.some(a => a.potName !== awards[0].potName);
+    if (!hasSidePots) return 'pot';
+    return potName.toLowerCase().replace(/^side pot (\d+)$/, 'side pot-$1');
+}
+
+function summaryLine(history: HandHistory, awards: HandHistoryAward[], player: HandHistoryPlayer): string {
+    const tags = [
+        player.seat === history.buttonIndex ? ' (button)' : '',
+        history.actions.some(a => a.playerId === player.id && a.type === 'smallBlind') ? ' (small blind)' : '',
+        history.actions.some(a => a.playerId === player.id && a.type === 'bigBlind') ? ' (big blind)' : '',
+    ].join('');
+    const won = awards.filter(a => a.playerId === player.id).reduce((sum, a) => sum + a.amount, 0);
+    const fold = history.actions.find(a => a.playerId === player.id && a.type === 'fold');
+    const prefix = `Seat ${player.seat + 1}: ${player.name}${tags}`;
+
+    if (fold) {
+        return fold.street === 'preflop' ? `${prefix} folded before Flop` : `${prefix} folded on the ${STREET_NAMES[fold.street]}`;
+    }
+    if (player.shownDown) {
+        const withHand = player.handDescription ? ` with ${player.handDescription}` : '';
+        return won > 0
+            ? `${prefix} showed ${formatCards(player.holeCards)} and won (${won})${withHand}`
+            : `${prefix} showed ${formatCards(player.holeCards)} and lost${withHand}`;
+    }
+    return won > 0 ? `${prefix} collected (${won})` : `${prefix} mucked`;
+}
+
+/**
+ * Render one hand as PokerStars hand history text
+ * viewerId gets a "Dealt to" line for their own hole cards
+ */
+export function toPokerStarsText(history: HandHistory, viewerId: string | null): string {
+    const { config } = history;
+    const nameOf = (playerId: string) => history.players.find(p => p.id === playerId)?.name || 'Unknown';
+    const uncalled = uncalledBet(history);
+    const awards = collectedAwards(history, uncalled);
+    const lines: string[] = [];
+
+    lines.push(`PokerStars Hand #${numericHandId(history)}: ${gameName(config)} (${stakes(config)}) - ${formatDate(history.startedAt)}`);
+    lines.push(`Table '${history.gameId}' ${config.seats}-max Seat #${history.buttonIndex + 1} is the button`);
+    history.players.forEach(p => lines.push(`Seat ${p.seat + 1}: ${p.name} (${p.startingChips} in chips)`));
+
+    // Forced bets come before the hole cards header, then one block per street
+    const forced = history.actions.filter(a => a.type === 'ante' || a.type === 'smallBlind' || a.type === 'bigBlind');
+    forced.forEach(a => lines.push(formatAction(a, nameOf(a.playerId), 0)));
+
+    const lastStreet = streetFor(history.board.length);
+    const streets: Street[] = ['preflop', 'flop', 'turn', 'river'];
+    for (const street of streets.slice(0, streets.indexOf(lastStreet) + 1)) {
+        lines.push(streetHeader(street, history.board));
+
+        const viewer = history.players.find(p => p.id === viewerId);
+        if (street === 'preflop' && viewer && viewer.holeCards.length > 0) {
+            lines.push(`Dealt to ${viewer.name} ${formatCards(viewer.holeCards)}`);
+        }
+
+        let highBet = street === 'preflop' ? Math.max(0, ...forced.map(a => a.roundBet)) : 0;
+        history.actions
+            .filter(a => a.street === street && !forced.includes(a))
+            .forEach(a => {
+                lines.push(formatAction(a, nameOf(a.playerId), highBet));
+                highBet = Math.max(highBet, a.roundBet);
+            });
+        if (uncalled?.street === street) {
+            lines.push(`Uncalled bet (${uncalled.amount}) returned to ${nameOf(uncalled.playerId)}`);
+        }
+    }
+
+    const shown = history.players.filter(p => p.shownDown);
+    if (shown.length > 0) {
+        lines.push('*** SHOW DOWN ***');
+        shown.forEach(p => {
+            lines.push(`${p.name}: shows ${formatCards(p.holeCards)}${p.handDescription ? ` (${p.handDescription})` : ''}`);
+        });
+    }
+    awards.forEach(a => lines.push(`${nameOf(a.playerId)} collected ${a.amount} from ${potLabel(awards, a.potName)}`));
+
+    const totalPot = awards.reduce((sum, a) => sum + a.amount, 0);
+    lines.push('*** SUMMARY ***');
+    lines.push(`Total pot ${totalPot} | Rake 0`);
+    if (history.board.length > 0) lines.push(`Board ${formatCards(history.board)}`);
+    history.players.forEach(p => lines.push(summaryLine(history, awards, p)));
+
+    return lines.join('\n');
+}
+
+/**
+ * Several hands in one file, separated by blank lines as PokerStars writes them
+ */
+export function toPokerStarsFile(histories: HandHistory[], viewerId: string | null): string {
+    return histories.map(h => toPokerStarsText(h, viewerId)).join('\n\n\n') + '\n';
+}
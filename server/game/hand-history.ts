@@ -0,0 +1,147 @@
+/**
+ * Hand history recording
+ * Builds a HandHistory from the rules engine's events as a hand is played.
+ * The record holds every hole card the server knows, use projectHandHistory
+ * before sending it to anyone.
+ */
+
+import type { Game, HandHistory, HandHistoryAction, Street } from './types';
+import type { GameEvent } from './poker-engine';
+
+export function handId(gameId: string, handNumber: number): string {
+    return `${gameId}-${handNumber}`;
+}
+
+export function streetFor(boardSize: number): Street {
+    if (boardSize >= 5) return 'river';
+    if (boardSize === 4) return 'turn';
+    if (boardSize === 3) return 'flop';
+    return 'preflop';
+}
+
+/**
+ * Start a record from the game as dealt: blinds and antes are already posted,
+ * so stacks are rebuilt from what each player has put in
+ */
+function startHandHistory(game: Game, now: number): HandHistory {
+    return {
+        handId: handId(game.gameId, game.handNumber),
+        gameId: game.gameId,
+        handNumber: game.handNumber,
+        startedAt: now,
+        endedAt: now,
+        config: game.config,
+        buttonIndex: game.buttonIndex,
+        players: game.players
+            .map((p, seat) => ({ p, seat }))
+            .filter(({ p }) => p.isActive)
+            .map(({ p, seat }) => ({
+                id: p.id,
+                name: p.name,
+                seat,
+                walletAddress: p.walletAddress,
+                startingChips: p.chips + p.bet,
+                holeCards: [],
+                shownDown: false,
+                handDescription: null,
+            })),
+        actions: [],
+        board: [],
+        awards: [],
+        fairness: game.fairness || null,
+    };
+}
+
+/**
+ * Fill in what is only known once the hand is over: the cards and how the hands ranked
+ */
+function finishHandHistory(history: HandHistory, game: Game, showdown: boolean, now: number): void {
+    history.endedAt = now;
+    history.board = [...game.community];
+    history.fairness = game.fairness || null;
+
+    history.players.forEach(record => {
+        const player = game.players.find(p => p.id === record.id);
+        if (!player) return;
+
+        record.holeCards = [...player.hand];
+        record.shownDown = showdown && !player.folded;
+        record.handDescription = record.shownDown
+            ? game.winner?.allHands?.find(h => h.id === player.id)?.description || null
+            : null;
+    });
+}
+
+/**
+ * Apply the events from one engine action to the hand being recorded
+ * Returns the hand still in progress and the hand these events completed, if any
+ */
+export function recordHandEvents(
+    inProgress: HandHistory | null,
+    game: Game,
+    events: GameEvent[],
+    now: number
+): { inProgress: HandHistory | null; completed: HandHistory | null } {
+    let history = inProgress ? structuredClone(inProgress) : null;
+    let completed: HandHistory | null = null;
+
+    const record = (action: Omit<HandHistoryAction, 'street'>) => {
+        history?.actions.push({ street: streetFor(history.board.length), ...action });
+    };
+
+    for (const event of events) {
+        if (event.type === 'handStarted') {
+            history = startHandHistory(game, now);
+            continue;
+        }
+        if (!history) continue;
+
+        switch (event.type) {
+            case 'forcedBetPosted':
+                record({
+                    playerId: event.playerId,
+                    type: event.forcedBet,
+                    amount: event.amount,
+                    roundBet: event.forcedBet === 'ante' ? 0 : event.amount,
+                    isAllIn: false,
+                });
+                break;
+            case 'playerFolded':
+                record({ playerId: event.playerId, type: 'fold', amount: 0, roundBet: 0, isAllIn: false });
+                break;
+            case 'playerChecked':
+                record({ playerId: event.playerId, type: 'check', amount: 0, roundBet: 0, isAllIn: false });
+                break;
+            case 'playerBet':
+                record({ playerId: event.playerId, type: event.kind, amount: event.amount, roundBet: event.roundBet, isAllIn: event.isAllIn });
+                break;
+            case 'communityCardsDealt':
+                history.board = game.community.slice(0, event.total);
+                break;
+            case 'potAwarded':
+                history.awards.push({ playerId: event.playerId, amount: event.amount, potName: event.potName });
+                break;
+            case 'handComplete':
+                finishHandHistory(history, game, event.showdown, now);
+                completed = history;
+                history = null;
+                break;
+        }
+    }
+
+    return { inProgress: history, completed };
+}
+
+/**
+ * A hand history as one player may see it: their own hole cards and those shown down
+ * Pass a null viewerId for the public record
+ */
+export function projectHandHistory(history: HandHistory, viewerId: string | null): HandHistory {
+    return {
+        ...history,
+        players: history.players.map(p => ({
+            ...p,
+            holeCards: p.shownDown || p.id === viewerId ? p.holeCards : [],
+        })),
+    };
+}
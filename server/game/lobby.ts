@@ -0,0 +1,90 @@
+/**
+ * Lobby listing
+ * What a player browsing for a table gets to see about each one
+ */
+
+import type { BettingStructure, Game, GameVariant, HandHistory, RebuyPolicy } from './types';
+
+export type TableCurrency = 'play' | 'usdc';
+
+export interface TableSummary {
+    gameId: string;
+    variant: GameVariant;
+    bettingStructure: BettingStructure;
+    smallBlind: number;
+    bigBlind: number;
+    ante: number;
+    seats: number;
+    seatsFilled: number;
+    startingStack: number;
+    buyInUsdc: number;
+    rebuyPolicy: RebuyPolicy;
+    currency: TableCurrency;
+    averagePot: number;     // Over the hands played so far, 0 before the first one
+    handsPlayed: number;
+    handInProgress: boolean;
+    spectatorDelaySeconds: number;
+    tournament: boolean;    // A sit-and-go still taking players
+}
+
+export interface PotStats {
+    handsPlayed: number;
+    totalPot: number;
+}
+
+export const EMPTY_POT_STATS: PotStats = { handsPlayed: 0, totalPot: 0 };
+
+/**
+ * Count a finished hand towards its table's average pot
+ */
+export function addHandToStats(stats: PotStats, hand: HandHistory): PotStats {
+    return {
+        handsPlayed: stats.handsPlayed + 1,
+        totalPot: stats.totalPot + hand.awards.reduce((sum, a) => sum + a.amount, 0),
+    };
+}
+
+/**
+ * What a seat costs in USDC: the sit-and-go buy-in, or the table's buy-in each hand
+ */
+function tableBuyInUsdc(game: Game): number {
+    return game.tournament ? game.tournament.config.buyIn : game.config.buyInUsdc;
+}
+
+/**
+ * Tables with a buy-in settle through Yellow in USDC, the rest play for chips only
+ */
+export function tableCurrency(game: Game): TableCurrency {
+    return tableBuyInUsdc(game) > 0 ? 'usdc' : 'play';
+}
+
+/**
+ * Listed tables are online and have a free seat, local games are never listed
+ * A sit-and-go stops being listed once its first hand is dealt
+ */
+export function isOpenTable(game: Game): boolean {
+    const registering = !game.tournament || game.tournament.status === 'registering';
+    return game.gameType !== 'local' && registering && game.players.length < game.config.seats;
+}
+
+export function summarizeTable(game: Game, stats: PotStats): TableSummary {
+    return {
+        gameId: game.gameId,
+        variant: game.config.variant,
+        bettingStructure: game.config.bettingStructure,
+        smallBlind: game.config.smallBlind,
+        bigBlind: game.config.bigBlind,
+        ante: game.config.ante,
+        seats: game.config.seats,
+        seatsFilled: game.players.length,
+        startingStack: game.config.startingStack,
+        buyInUsdc: tableBuyInUsdc(game),
+        rebuyPolicy: game.config.rebuyPolicy,
+        currency: tableCurrency(game),
+        averagePot: stats.handsPlayed === 0 ? 0 : Math.round(stats.totalPot / stats.handsPlayed),
+        handsPlayed: stats.handsPlayed,
+        handInProgress: game.phase !== 'idle' && game.phase !== 'showdown',
+        spectatorDelaySeconds: game.config.spectatorDelaySeconds,
+        tournament: !!game.tournament,
+    };
+}
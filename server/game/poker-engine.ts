@@ -0,0 +1,914 @@
+/**
+ * Poker Rules Engine
+ * Pure reducer for Hold'em and Omaha hands
+ *
+ * applyAction(game, action) returns the next game state together with the
+ * events that produced it. The input game is never mutated and the engine
+ * does no I/O: logging, WebSocket broadcasts and Yellow Network settlement
+ * are left to the caller.
+ */
+
+import type { Card, Game, GamePhase, PendingReveal, Player, ShuffledDeck } from './types';
+import { compareHands, HandRank } from './hand-evaluator';
+import { buildPots, potName, splitPot, type PotShare } from './pots';
+import { ActionError } from './errors';
+import { VARIANTS } from './variants';
+import { fixedLimitBet, minimumBet, FIXED_LIMIT_BET_CAP } from './table-config';
+import { knockOutBustedPlayers } from './tournament';
+
+// ====== ACTIONS & EVENTS ======
+
+export type GameAction =
+    | { type: 'startHand'; deck: ShuffledDeck | null }       // null for a trustless deal
+    | { type: 'fold'; playerId: string }
+    | { type: 'check'; playerId: string }
+    | { type: 'call'; playerId: string }
+    | { type: 'bet'; playerId: string; amount: number }      // Open the betting for this round
+    | { type: 'raise'; playerId: string; amount: number }    // Raise to this total for the round
+    | { type: 'allIn'; playerId: string }
+    | { type: 'nextRound'; deck: ShuffledDeck | null }
+    // Cards opened by the players in a trustless deal
+    | { type: 'holesDealt' }
+    | { type: 'communityRevealed'; cards: Card[] }
+    | { type: 'handsRevealed'; hands: Record<string, Card[]> }
+    | { type: 'revealForfeited'; playerIds: string[] }          // Players who withheld their deal keys past the deadline
+    | { type: 'revealFailed' };                                 // The keys did not open the cards and nobody can be singled out
+
+export type PlayerAction = Extract<GameAction, { playerId: string }>;
+
+export type ForcedBet = 'ante' | 'smallBlind' | 'bigBlind';
+
+export type BetKind = 'call' | 'bet' | 'raise';
+
+export type GameEvent =
+    | { type: 'handStarted'; handNumber: number; buttonIndex: number; playerCount: number; deckCommitment: string | null }
+    | { type: 'cardsRequested'; reveal: PendingReveal }
+    | { type: 'forcedBetPosted'; playerId: string; amount: number; forcedBet: ForcedBet }
+    | { type: 'holeCardsDealt'; playerCount: number }
+    | { type: 'communityCardsDealt'; count: number; total: number }
+    | { type: 'playerFolded'; playerId: string }
+    | { type: 'playerChecked'; playerId: string }
+    | { type: 'playerBet'; playerId: string; kind: BetKind; amount: number; roundBet: number; pot: number; isAllIn: boolean }
+    | { type: 'turnChanged'; fromIndex: number; toIndex: number }
+    | { type: 'phaseChanged'; phase: GamePhase }
+    | { type: 'potAwarded'; playerId: string; amount: number; reason: string; potName: string }
+    | { type: 'handComplete'; showdown: boolean }
+    | { type: 'playerRebought'; playerId: string; chips: number }
+    | { type: 'playerEliminated'; playerId: string; position: number; prize: number }
+    | { type: 'tournamentFinished'; winnerId: string; prize: number };
+
+export interface EngineResult {
+    game: Game;
+    events: GameEvent[];
+}
+
+/**
+ * Apply an action to a game and return the resulting state and events
+ * Throws an Error with a player-facing message if the action is not allowed
+ */
+export function applyAction(game: Game, action: GameAction): EngineResult {
+    const next = structuredClone(game);
+    const events: GameEvent[] = [];
+
+    switch (action.type) {
+        case 'startHand':
+            startHand(next, action.deck, events);
+            break;
+        case 'nextRound':
+            resetForNextRound(next, events);
+            startHand(next, action.deck, events);
+            break;
+        case 'holesDealt':
+        case 'communityRevealed':
+        case 'handsRevealed':
+            applyReveal(next, action, events);
+            break;
+        case 'revealForfeited':
+            forfeitReveal(next, action.playerIds, events);
+            break;
+        case 'revealFailed':
+            callOffReveal(next, events);
+            break;
+        default:
+            applyPlayerAction(next, action, events);
+    }
+
+    return { game: next, events };
+}
+
+// ====== HAND LIFECYCLE ======
+
+function assertHandOver(game: Game): void {
+    if (game.phase !== 'idle' && game.phase !== 'showdown') {
+        throw new ActionError('HAND_IN_PROGRESS', 'Hand already in progress');
+    }
+}
+
+function startHand(game: Game, deck: ShuffledDeck | null, events: GameEvent[]): void {
+    assertHandOver(game);
+
+    const isTrustless = game.config.dealMode === 'trustless';
+    if (!isTrustless && !deck) {
+        throw new Error('A shuffled deck is required to deal');
+    }
+
+    if (game.players.filter(p => p.chips > 0).length < 2) {
+        throw new ActionError('NOT_ENOUGH_PLAYERS', 'Need at least 2 players with chips to start');
+    }
+
+    game.phase = 'betting1';
+    game.activePlayerIndex = 0;
+    game.pot = 0;
+    game.pots = [];
+    game.highBet = 0;
+    game.lastRaise = minimumBet(game.config);
+    game.winner = null;
+    game.foldWinner = null;
+
+    // Busted players sit the hand out and are skipped for the button and blinds
+    game.players.forEach(p => {
+        p.handStartChips = p.chips;
+        p.bet = 0;
+        p.roundBet = 0;
+        p.isActive = p.chips > 0;
+        p.folded = !p.isActive;
+        p.hand = [];
+        p.actedThisRound = false;
+        p.raiseClosed = false;
+    });
+
+    moveButton(game);
+    game.handNumber += 1;
+
+    game.community = [];
+    game.pendingReveal = null;
+    const dealtIn = game.players.filter(p => p.isActive);
+    if (deck && !isTrustless) {
+        game.deck = [...deck.cards];
+        game.fairness = {
+            handNumber: game.handNumber,
+            commitment: deck.commitment,
+            seed: deck.seed,
+            dealtPlayerIds: dealtIn.map(p => p.id),
+            holeCardCount: VARIANTS[game.config.variant].holeCards,
+            deckSize: deck.cards.length,
+        };
+    } else {
+        // The players shuffle and deal among themselves, the server never holds the deck
+        game.deck = null;
+        game.fairness = null;
+    }
+    events.push({ type: 'handStarted', handNumber: game.handNumber, buttonIndex: game.buttonIndex, playerCount: dealtIn.length, deckCommitment: game.fairness?.commitment ?? null });
+
+    postForcedBets(game, events);
+    dealCards(game, events);
+    runOutIfNobodyCanAct(game, events);
+}
+
+/**
+ * Find the next seat after fromIndex that is dealt into the current hand
+ */
+function nextSeatInHand(game: Game, fromIndex: number): number {
+    for (let step = 1; step <= game.players.length; step++) {
+        const index = (fromIndex + step) % game.players.length;
+        if (game.players[index].isActive) {
+            return index;
+        }
+    }
+    return fromIndex;
+}
+
+/**
+ * Pass the button clockwise to the next player dealt in
+ * The first hand at a table keeps the button where it started unless that seat is sitting out
+ */
+function moveButton(game: Game): void {
+    const current = game.buttonIndex % game.players.length;
+    const keepButton = game.handNumber === 0 && game.players[current].isActive;
+    game.buttonIndex = keepButton ? current : nextSeatInHand(game, current);
+    game.players.forEach((p, index) => {
+        p.hasDealerChip = index === game.buttonIndex;
+    });
+}
+
+function postForcedBet(game: Game, player: Player, amount: number, forcedBet: ForcedBet, events: GameEvent[]): void {
+    const posted = Math.min(amount, player.chips);
+    if (posted <= 0) return;
+
+    player.chips -= posted;
+    player.bet += posted;
+    // Antes are dead money and do not count towards the preflop bet to call
+    if (forcedBet !== 'ante') {
+        player.roundBet += posted;
+    }
+    game.pot += posted;
+
+    events.push({ type: 'forcedBetPosted', playerId: player.id, amount: posted, forcedBet });
+}
+
+/**
+ * Post antes and blinds, then hand the action to the first player after the big blind
+ * Heads-up the button posts the small blind and acts first preflop
+ * Ante-only tables skip the blinds and open the action left of the button
+ */
+function postForcedBets(game: Game, events: GameEvent[]): void {
+    const { smallBlind, bigBlind, ante } = game.config;
+    const { buttonIndex } = game;
+    const isHeadsUp = game.players.filter(p => p.isActive).length === 2;
+    const smallBlindIndex = isHeadsUp ? buttonIndex : nextSeatInHand(game, buttonIndex);
+    const bigBlindIndex = nextSeatInHand(game, smallBlindIndex);
+
+    if (ante > 0) {
+        game.players.filter(p => p.isActive).forEach(p => postForcedBet(game, p, ante, 'ante', events));
+    }
+    postForcedBet(game, game.players[smallBlindIndex], smallBlind, 'smallBlind', events);
+    postForcedBet(game, game.players[bigBlindIndex], bigBlind, 'bigBlind', events);
+
+    game.highBet = Math.max(...game.players.map(p => p.roundBet));
+    game.pots = buildPots(game.players);
+
+    // With antes only nobody has bet yet, so the action opens left of the button as it does postflop
+    const anteOnly = bigBlind === 0;
+    const firstToAct = nextSeatToAct(game, anteOnly ? buttonIndex : bigBlindIndex);
+    game.activePlayerIndex = firstToAct ?? bigBlindIndex;
+}
+
+/**
+ * Deal the board straight out when the forced bets left nobody a decision to make:
+ * everyone is all-in, or the one player with chips already covers the rest
+ */
+function runOutIfNobodyCanAct(game: Game, events: GameEvent[]): void {
+    if (game.phase !== 'betting1') return;
+
+    const withChips = game.players.filter(p => p.isActive && !p.folded && p.chips > 0);
+    if (withChips.length === 0 || (withChips.length === 1 && withChips[0].roundBet >= game.highBet)) {
+        advancePhase(game, events);
+    }
+}
+
+function resetForNextRound(game: Game, events: GameEvent[]): void {
+    assertHandOver(game);
+
+    game.phase = 'idle';
+    game.pot = 0;
+    game.pots = [];
+    game.highBet = 0;
+    game.players.forEach(p => {
+        p.bet = 0;
+        p.folded = false;
+        p.hand = [];
+        p.roundBet = 0;
+        p.actedThisRound = false;
+
+        // Tables with automatic rebuys top a busted player back up, tournaments have already knocked them out
+        if (p.chips === 0 && !game.tournament && game.config.rebuyPolicy === 'auto') {
+            p.chips = game.config.startingStack;
+            events.push({ type: 'playerRebought', playerId: p.id, chips: p.chips });
+        }
+    });
+    game.community = [];
+    game.winner = null;
+    game.foldWinner = null;
+}
+
+// ====== DEALING ======
+
+function drawCard(game: Game): Card {
+    const card = game.deck?.pop();
+    if (!card) {
+        throw new Error('Deck is empty');
+    }
+    return card;
+}
+
+function dealCards(game: Game, events: GameEvent[]): void {
+    if (game.config.dealMode === 'trustless') {
+        requestReveal(game, 'dealing', { kind: 'holes' }, events);
+        return;
+    }
+
+    const holeCards = VARIANTS[game.config.variant].holeCards;
+    const dealtIn = game.players.filter(p => p.isActive);
+    dealtIn.forEach((player) => {
+        player.hand = Array.from({ length: holeCards }, () => drawCard(game));
+    });
+
+    events.push({ type: 'holeCardsDealt', playerCount: dealtIn.length });
+}
+
+function dealCommunityCards(game: Game, count: number, events: GameEvent[]): void {
+    for (let i = 0; i < count; i++) {
+        game.community.push(drawCard(game));
+    }
+
+    events.push({ type: 'communityCardsDealt', count, total: game.community.length });
+}
+
+// ====== TRUSTLESS DEALING ======
+
+function requestReveal(game: Game, phase: GamePhase, reveal: PendingReveal, events: GameEvent[]): void {
+    game.phase = phase;
+    game.pendingReveal = reveal;
+    events.push({ type: 'phaseChanged', phase });
+    events.push({ type: 'cardsRequested', reveal });
+}
+
+/**
+ * Deal the next board cards, or wait for the players to open them in a trustless deal
+ */
+function dealStreet(game: Game, count: number, nextPhase: GamePhase, events: GameEvent[]): void {
+    if (game.config.dealMode === 'trustless') {
+        const waitingPhase = game.community.length === 0 ? 'flop' : game.community.length === 3 ? 'turn' : 'river';
+        requestReveal(game, waitingPhase, { kind: 'community', count, nextPhase }, events);
+        return;
+    }
+
+    dealCommunityCards(game, count, events);
+    continueAfterStreet(game, nextPhase, events);
+}
+
+function continueAfterStreet(game: Game, nextPhase: GamePhase, events: GameEvent[]): void {
+    if (nextPhase === 'showdown') {
+        goToShowdown(game, events);
+    } else {
+        startBettingRound(game, nextPhase, events);
+    }
+}
+
+function assertUnseen(game: Game, cards: Card[]): void {
+    const seen = [...game.community, ...game.players.flatMap(p => p.hand), ...cards];
+    const keys = seen.map(card => `${card.rank}${card.suit}`);
+    if (new Set(keys).size !== keys.length) {
+        throw new ActionError('INVALID_REVEAL', 'Revealed cards repeat cards already dealt');
+    }
+}
+
+function applyReveal(game: Game, action: Extract<GameAction, { type: 'holesDealt' | 'communityRevealed' | 'handsRevealed' }>, events: GameEvent[]): void {
+    const pending = game.pendingReveal;
+
+    if (action.type === 'holesDealt') {
+        if (pending?.kind !== 'holes') {
+            throw new ActionError('INVALID_REVEAL', 'No hole cards are being dealt');
+        }
+        game.pendingReveal = null;
+        game.phase = 'betting1';
+        events.push({ type: 'holeCardsDealt', playerCount: game.players.filter(p => p.isActive).length });
+        events.push({ type: 'phaseChanged', phase: game.phase });
+        runOutIfNobodyCanAct(game, events);
+        return;
+    }
+
+    if (action.type === 'communityRevealed') {
+        if (pending?.kind !== 'community' || action.cards.length !== pending.count) {
+            throw new ActionError('INVALID_REVEAL', 'Unexpected board cards');
+        }
+        assertUnseen(game, action.cards);
+        game.community.push(...action.cards);
+        game.pendingReveal = null;
+        events.push({ type: 'communityCardsDealt', count: action.cards.length, total: game.community.length });
+        continueAfterStreet(game, pending.nextPhase, events);
+        return;
+    }
+
+    const holeCards = VARIANTS[game.config.variant].holeCards;
+    if (pending?.kind !== 'hands' || !pending.playerIds.every(id => action.hands[id]?.length === holeCards)) {
+        throw new ActionError('INVALID_REVEAL', 'Unexpected showdown hands');
+    }
+    assertUnseen(game, pending.playerIds.flatMap(id => action.hands[id]));
+    pending.playerIds.forEach(id => {
+        game.players.find(p => p.id === id)!.hand = action.hands[id];
+    });
+    game.pendingReveal = null;
+    resolveShowdown(game, events);
+}
+
+/**
+ * Fold the players who withheld their deal keys and finish what the rest can
+ * A showdown goes on with the hands that can still be opened. Without every key
+ * the board and hole cards stay locked, so the pots are split between the players left in them.
+ * Players who already folded have nothing left to lose: when only they withheld, the hand is called off.
+ */
+function forfeitReveal(game: Game, playerIds: string[], events: GameEvent[]): void {
+    const pending = game.pendingReveal;
+    const forfeited = game.players.filter(p => playerIds.includes(p.id));
+    if (!pending || forfeited.length === 0) {
+        throw new ActionError('INVALID_REVEAL', 'No deal keys are being waited on');
+    }
+
+    const stillIn = game.players.filter(p => !p.folded);
+    const folding = stillIn.filter(p => playerIds.includes(p.id));
+    if (folding.length === 0) {
+        callOffReveal(game, events);
+        return;
+    }
+
+    // When everyone still in withheld, nobody folds and the pots are split between them
+    if (folding.length < stillIn.length) {
+        folding.forEach(player => {
+            player.folded = true;
+            events.push({ type: 'playerFolded', playerId: player.id });
+        });
+    }
+    game.pots = buildPots(game.players);
+
+    const remaining = game.players.filter(p => !p.folded);
+    if (remaining.length === 1) {
+        game.pendingReveal = null;
+        awardFoldWin(game, remaining[0], folding[0], events);
+    } else if (pending.kind === 'hands' && remaining.length < stillIn.length) {
+        requestReveal(game, 'reveal', { kind: 'hands', playerIds: remaining.map(p => p.id) }, events);
+    } else {
+        game.pendingReveal = null;
+        splitUnopenedPots(game, events);
+    }
+}
+
+/**
+ * Call the hand off when the cards it waits on can never be opened and nobody can be held to blame
+ */
+function callOffReveal(game: Game, events: GameEvent[]): void {
+    if (!game.pendingReveal) {
+        throw new ActionError('INVALID_REVEAL', 'No cards are being opened');
+    }
+    game.pendingReveal = null;
+    refundUnopenedHand(game, events);
+}
+
+/**
+ * Resolve the showdown, first asking the players to open their hands if the server cannot see them
+ */
+function goToShowdown(game: Game, events: GameEvent[]): void {
+    const contenders = game.players.filter(p => !p.folded);
+    if (contenders.some(p => p.hand.length === 0)) {
+        requestReveal(game, 'reveal', { kind: 'hands', playerIds: contenders.map(p => p.id) }, events);
+        return;
+    }
+
+    resolveShowdown(game, events);
+}
+
+// ====== PLAYER ACTIONS ======
+
+/**
+ * The smallest total a player may bet or raise to this round, unless going all-in for less
+ */
+export function minRaiseTo(game: Game): number {
+    const minTotal = game.highBet + game.lastRaise;
+    // A fixed-limit raise that reaches the cap can be smaller than a full bet
+    if (game.config.bettingStructure === 'fixed-limit') {
+        return Math.min(minTotal, FIXED_LIMIT_BET_CAP * fixedLimitBet(game.config, game.phase));
+    }
+    return minTotal;
+}
+
+/**
+ * The largest total a player may bet or raise to this round, null when only their stack limits it
+ * Pot-limit: call first, then raise by the size of the pot including that call
+ * Fixed-limit: one bet above the current bet, up to the cap; at the cap it is the current bet
+ */
+export function maxRaiseTo(game: Game, player: Player): number | null {
+    switch (game.config.bettingStructure) {
+        case 'pot-limit': {
+            const toCall = game.highBet - player.roundBet;
+            return game.highBet + game.pot + toCall;
+        }
+        case 'fixed-limit': {
+            const betSize = fixedLimitBet(game.config, game.phase);
+            return Math.max(game.highBet, Math.min(game.highBet + betSize, FIXED_LIMIT_BET_CAP * betSize));
+        }
+        default:
+            return null;
+    }
+}
+
+/**
+ * Reject a bet or raise total above what the table's betting structure allows
+ */
+function assertWithinLimit(game: Game, player: Player, total: number): void {
+    const limitTotal = maxRaiseTo(game, player);
+    if (limitTotal === null || total <= limitTotal) return;
+
+    if (game.config.bettingStructure === 'pot-limit') {
+        throw new ActionError('ABOVE_POT_LIMIT', `Pot limit: you can raise to at most ${limitTotal}`);
+    }
+    throw limitTotal <= game.highBet
+        ? new ActionError('ABOVE_BET_LIMIT', `Betting is capped at ${limitTotal} this street, you can only call or fold`)
+        : new ActionError('ABOVE_BET_LIMIT', `Fixed limit: you can only ${game.highBet > 0 ? 'raise' : 'bet'} to ${limitTotal}`);
+}
+
+function applyPlayerAction(game: Game, action: PlayerAction, events: GameEvent[]): void {
+    const playerIndex = game.players.findIndex(p => p.id === action.playerId);
+    if (playerIndex === -1) {
+        throw new ActionError('PLAYER_NOT_FOUND', 'Player not found');
+    }
+
+    if (!game.phase.startsWith('betting')) {
+        throw new ActionError('NO_BETTING_ROUND', 'No betting round in progress');
+    }
+
+    if (playerIndex !== game.activePlayerIndex) {
+        throw new ActionError('NOT_YOUR_TURN', 'Not your turn');
+    }
+
+    const player = game.players[playerIndex];
+    const toCall = game.highBet - player.roundBet;
+
+    switch (action.type) {
+        case 'fold': {
+            player.folded = true;
+            game.pots = buildPots(game.players);
+            events.push({ type: 'playerFolded', playerId: player.id });
+
+            const remaining = game.players.filter(p => !p.folded);
+            if (remaining.length === 1) {
+                awardFoldWin(game, remaining[0], player, events);
+                return;
+            }
+            break;
+        }
+        case 'check':
+            if (toCall > 0) {
+                throw new ActionError('CANNOT_CHECK', `Must call ${toCall} or fold`);
+            }
+            player.actedThisRound = true;
+            player.raiseClosed = false;
+            events.push({ type: 'playerChecked', playerId: player.id });
+            break;
+        case 'call':
+            if (toCall <= 0) {
+                throw new ActionError('NOTHING_TO_CALL', 'There is no bet to call');
+            }
+            commitChips(game, player, Math.min(toCall, player.chips), events);
+            break;
+        case 'bet':
+            if (game.highBet > 0) {
+                throw new ActionError('BET_ALREADY_MADE', `There is already a bet of ${game.highBet}, raise instead`);
+            }
+            betTo(game, player, action.amount, events);
+            break;
+        case 'raise':
+            if (game.highBet === 0) {
+                throw new ActionError('NOTHING_TO_RAISE', 'There is no bet to raise, bet instead');
+            }
+            betTo(game, player, action.amount, events);
+            break;
+        case 'allIn': {
+            const allInTotal = player.roundBet + player.chips;
+            if (allInTotal > game.highBet && player.raiseClosed) {
+                throw new ActionError('RAISE_NOT_ALLOWED', 'Betting was not reopened, you can only call or fold');
+            }
+            assertWithinLimit(game, player, allInTotal);
+            commitChips(game, player, player.chips, events);
+            break;
+        }
+    }
+
+    advanceActivePlayer(game, events);
+
+    if (allBetsMatched(game)) {
+        advancePhase(game, events);
+    }
+}
+
+/**
+ * Validate a bet or raise to a total for the round, then commit the chips
+ * A total below the minimum raise is only allowed as an all-in
+ */
+function betTo(game: Game, player: Player, total: number, events: GameEvent[]): void {
+    if (!Number.isInteger(total) || total <= game.highBet) {
+        throw new ActionError('INVALID_AMOUNT', `Invalid amount: ${total} (must be more than ${game.highBet})`);
+    }
+
+    const maxTotal = player.roundBet + player.chips;
+    if (total > maxTotal) {
+        throw new ActionError('INSUFFICIENT_CHIPS', `Not enough chips: you can go up to ${maxTotal}`);
+    }
+
+    if (player.raiseClosed) {
+        throw new ActionError('RAISE_NOT_ALLOWED', 'Betting was not reopened, you can only call or fold');
+    }
+
+    assertWithinLimit(game, player, total);
+
+    const minTotal = minRaiseTo(game);
+    if (total < minTotal && total < maxTotal) {
+        throw game.highBet === 0
+            ? new ActionError('BELOW_MIN_BET', `Minimum bet is ${minTotal}`)
+            : new ActionError('BELOW_MIN_RAISE', `Minimum raise is to ${minTotal}`);
+    }
+
+    commitChips(game, player, total - player.roundBet, events);
+}
+
+/**
+ * Move chips from a player's stack into the pot and work out whether they called, bet or raised
+ * A full raise reopens the betting for everyone; a short all-in makes players who
+ * already acted respond again but does not let them re-raise
+ */
+function commitChips(game: Game, player: Player, amount: number, events: GameEvent[]): void {
+    const previousHighBet = game.highBet;
+
+    player.chips -= amount;
+    player.bet += amount;
+    player.roundBet += amount;
+    game.pot += amount;
+    game.pots = buildPots(game.players);
+    player.actedThisRound = true;
+    player.raiseClosed = false;
+
+    let kind: BetKind = 'call';
+    if (player.roundBet > previousHighBet) {
+        kind = previousHighBet === 0 ? 'bet' : 'raise';
+        const raiseSize = player.roundBet - previousHighBet;
+        const isFullRaise = previousHighBet === 0 || raiseSize >= game.lastRaise;
+        game.highBet = player.roundBet;
+
+        if (isFullRaise) {
+            game.lastRaise = Math.max(game.lastRaise, raiseSize);
+        }
+
+        game.players.forEach(p => {
+            if (p.id === player.id || p.folded) return;
+            if (isFullRaise) {
+                p.raiseClosed = false;
+            } else if (p.actedThisRound) {
+                p.raiseClosed = true;
+            }
+            p.actedThisRound = false;
+        });
+    }
+
+    events.push({ type: 'playerBet', playerId: player.id, kind, amount, roundBet: player.roundBet, pot: game.pot, isAllIn: player.chips === 0 });
+}
+
+function awardFoldWin(game: Game, winner: Player, folder: Player, events: GameEvent[]): void {
+    const potWon = game.pot;
+    winner.chips += potWon;
+
+    game.phase = 'idle';
+    game.pot = 0;
+    game.pots = [];
+    game.foldWinner = {
+        id: winner.id,
+        name: winner.name,
+        chips: winner.chips,
+        potWon,
+        foldedPlayerId: folder.id,
+        foldedPlayerName: folder.name
+    };
+    // Cards stay on the table until the next deal so the hand can be verified
+    game.players.forEach(p => {
+        p.bet = 0;
+    });
+
+    events.push({ type: 'potAwarded', playerId: winner.id, amount: potWon, reason: 'Everyone else folded', potName: potName(0) });
+    events.push({ type: 'phaseChanged', phase: game.phase });
+    events.push({ type: 'handComplete', showdown: false });
+    knockOutBustedPlayers(game, events);
+}
+
+// ====== BETTING ROUNDS ======
+
+function allBetsMatched(game: Game): boolean {
+    const activePlayers = game.players.filter(p => !p.folded && p.isActive);
+
+    if (activePlayers.length <= 1) return true;
+
+    const playersWithChips = activePlayers.filter(p => p.chips > 0);
+    const allAllIn = playersWithChips.length === 0;
+
+    if (allAllIn) return true;
+
+    const playersWithChipsActed = playersWithChips.every(p => p.actedThisRound);
+    const betsMatch = playersWithChips.every(p => p.roundBet === playersWithChips[0].roundBet);
+
+    return playersWithChipsActed && betsMatch;
+}
+
+/**
+ * Find the next seat after fromIndex that can still act: not folded and not all-in
+ * Returns null if nobody can
+ */
+function nextSeatToAct(game: Game, fromIndex: number): number | null {
+    for (let step = 1; step <= game.players.length; step++) {
+        const index = (fromIndex + step) % game.players.length;
+        const player = game.players[index];
+        if (!player.folded && player.chips > 0) {
+            return index;
+        }
+    }
+    return null;
+}
+
+function advanceActivePlayer(game: Game, events: GameEvent[]): void {
+    const activePlayers = game.players.filter(p => !p.folded);
+    if (activePlayers.length <= 1) return;
+
+    const currentIndex = game.activePlayerIndex;
+    const nextIndex = nextSeatToAct(game, currentIndex);
+
+    // Everyone left is all-in or folded
+    if (nextIndex === null) return;
+
+    game.activePlayerIndex = nextIndex;
+    events.push({ type: 'turnChanged', fromIndex: currentIndex, toIndex: nextIndex });
+}
+
+function startBettingRound(game: Game, phase: GamePhase, events: GameEvent[]): void {
+    game.phase = phase;
+    game.players.forEach(p => {
+        p.roundBet = 0;
+        p.actedThisRound = false;
+        p.raiseClosed = false;
+    });
+    game.highBet = 0;
+    game.lastRaise = game.config.bettingStructure === 'fixed-limit' ? fixedLimitBet(game.config, phase) : minimumBet(game.config);
+    // Postflop the first player still able to act left of the button opens the betting
+    game.activePlayerIndex = nextSeatToAct(game, game.buttonIndex) ?? game.buttonIndex;
+    events.push({ type: 'phaseChanged', phase });
+}
+
+function advancePhase(game: Game, events: GameEvent[]): void {
+    const activePlayers = game.players.filter(p => !p.folded && p.isActive);
+    const playersWithChips = activePlayers.filter(p => p.chips > 0);
+
+    // At most one player can still bet: run out the board and go straight to showdown
+    if (playersWithChips.length <= 1) {
+        if (game.community.length < 5) {
+            dealStreet(game, 5 - game.community.length, 'showdown', events);
+        } else {
+            goToShowdown(game, events);
+        }
+        return;
+    }
+
+    switch (game.phase) {
+        case 'betting1':
+            dealStreet(game, 3, 'betting2', events);
+            break;
+        case 'betting2':
+            dealStreet(game, 1, 'betting3', events);
+            break;
+        case 'betting3':
+            dealStreet(game, 1, 'betting4', events);
+            break;
+        case 'betting4':
+            goToShowdown(game, events);
+            break;
+    }
+}
+
+// ====== SHOWDOWN ======
+
+/**
+ * Find every player holding the best hand among those contesting a pot
+ */
+function findShowdownWinners(contenders: Player[], ranks: Map<string, HandRank>): Player[] {
+    if (contenders.length === 1) return contenders;
+
+    let best: HandRank | null = null;
+    for (const p of contenders) {
+        const rank = ranks.get(p.id)!;
+        if (!best || compareHands(rank, best) > 0) best = rank;
+    }
+
+    return contenders.filter(p => compareHands(ranks.get(p.id)!, best!) === 0);
+}
+
+function resolveShowdown(game: Game, events: GameEvent[]): void {
+    game.phase = 'showdown';
+    events.push({ type: 'phaseChanged', phase: game.phase });
+
+    const contenders = game.players.filter(p => !p.folded);
+    const { evaluate } = VARIANTS[game.config.variant];
+    const ranks = new Map(contenders.map(p => [p.id, evaluate(p.hand, game.community)]));
+    game.pots = buildPots(game.players);
+
+    // Award each pot separately to the best hand among its eligible players
+    const totals = new Map<string, number>();
+    let isChop = false;
+    const potResults = game.pots.map((pot, index) => {
+        const eligible = contenders.filter(p => pot.eligiblePlayerIds.includes(p.id));
+        const winners = findShowdownWinners(eligible, ranks);
+        const shares = splitPot(pot.amount, winners.map(p => p.id), game.players, game.buttonIndex);
+        isChop = isChop || shares.length > 1;
+
+        return {
+            name: potName(index),
+            amount: pot.amount,
+            winners: shares.map(({ playerId, amount }) => {
+                const player = game.players.find(p => p.id === playerId)!;
+                player.chips += amount;
+                totals.set(playerId, (totals.get(playerId) || 0) + amount);
+                return { id: player.id, name: player.name, amount };
+            }),
+        };
+    });
+
+    const reason = contenders.length === 1 ? 'Everyone else folded' : isChop ? 'Split pot' : 'Best hand';
+    potResults.forEach(result => result.winners.forEach(w => {
+        events.push({ type: 'potAwarded', playerId: w.id, amount: w.amount, reason, potName: result.name });
+    }));
+
+    const potWinners = [...totals.entries()]
+        .sort((a, b) => b[1] - a[1])
+        .map(([playerId, amount]) => {
+            const player = game.players.find(p => p.id === playerId)!;
+            const rank = ranks.get(playerId)!;
+            player.handType = rank.handType;
+            return { id: player.id, name: player.name, amount, chips: player.chips, handType: rank.handType, description: rank.description };
+        });
+
+    const playerHandEvals = contenders.map(p => {
+        const { score, handType, description, cards } = ranks.get(p.id)!;
+        return { id: p.id, name: p.name, hand: p.hand, score, handType, description, bestCards: cards };
+    });
+
+    // The top-level fields describe the biggest winner; winners and pots list every share
+    const first = game.players.find(p => p.id === potWinners[0].id)!;
+    const firstRank = ranks.get(first.id)!;
+
+    game.winner = {
+        id: first.id,
+        name: first.name,
+        chips: first.chips,
+        potWon: potWinners[0].amount,
+        reason,
+        hand: first.hand,
+        handType: firstRank.handType,
+        description: firstRank.description,
+        bestCards: firstRank.cards,
+        winners: potWinners,
+        pots: potResults,
+        allHands: playerHandEvals
+    };
+
+    events.push({ type: 'handComplete', showdown: true });
+    knockOutBustedPlayers(game, events);
+}
+
+/**
+ * Split every pot evenly between the players left in it when the cards can never be opened
+ */
+function splitUnopenedPots(game: Game, events: GameEvent[]): void {
+    const pots = game.pots.map((pot, index) => ({
+        name: potName(index),
+        amount: pot.amount,
+        shares: splitPot(pot.amount, pot.eligiblePlayerIds, game.players, game.buttonIndex),
+    }));
+    settleUnopenedHand(game, 'Deal keys withheld', pots, events);
+}
+
+/**
+ * Give every player back what they put into a hand that was called off
+ */
+function refundUnopenedHand(game: Game, events: GameEvent[]): void {
+    const shares = game.players.filter(p => p.bet > 0).map(p => ({ playerId: p.id, amount: p.bet }));
+    const amount = shares.reduce((sum, share) => sum + share.amount, 0);
+    settleUnopenedHand(game, 'Hand called off, bets returned', [{ name: potName(0), amount, shares }], events);
+}
+
+/**
+ * Pay out pots whose cards were never opened and record the result as a showdown without hands
+ */
+function settleUnopenedHand(game: Game, reason: string, pots: { name: string; amount: number; shares: PotShare[] }[], events: GameEvent[]): void {
+    game.phase = 'showdown';
+    events.push({ type: 'phaseChanged', phase: game.phase });
+
+    const totals = new Map<string, number>();
+    const potResults = pots.map(({ name, amount, shares }) => ({
+        name,
+        amount,
+        winners: shares.map(({ playerId, amount }) => {
+            const player = game.players.find(p => p.id === playerId)!;
+            player.chips += amount;
+            totals.set(playerId, (totals.get(playerId) || 0) + amount);
+            events.push({ type: 'potAwarded', playerId, amount, reason, potName: name });
+            return { id: player.id, name: player.name, amount };
+        }),
+    }));
+
+    const potWinners = [...totals.entries()]
+        .sort((a, b) => b[1] - a[1])
+        .map(([playerId, amount]) => {
+            const player = game.players.find(p => p.id === playerId)!;
+            return { id: player.id, name: player.name, amount, chips: player.chips, handType: 'Unopened', description: 'Cards never opened' };
+        });
+
+    const first = potWinners[0];
+    game.winner = {
+        id: first.id,
+        name: first.name,
+        chips: first.chips,
+        potWon: first.amount,
+        reason,
+        hand: [],
+        handType: first.handType,
+        description: first.description,
+        winners: potWinners,
+        pots: potResults,
+    };
+
+    events.push({ type: 'handComplete', showdown: true });
+    knockOutBustedPlayers(game, events);
+}
@@ -4,7 +4,7 @@
  * 
  * This module manages:
  * - Creating App Sessions when game starts
- * - Closing App Sessions with final allocations on showdown
+ * - Closing App Sessions with final allocations when a hand or tournament ends
  */
 
 import { YellowSession } from './YellowSession';
@@ -74,9 +74,32 @@ export async function startPokerSession(
     return appSessionId;
 }
 
+/**
+ * Reconnect a restored game to Yellow Network and re-associate its open App Session
+ * Call this on boot for games loaded from storage
+ */
+export async function restoreGame(
+    gameId: string,
+    appSessionId: string | null,
+    players: Array<{ walletAddress: string; buyIn: string }>
+): Promise<void> {
+    const session = new YellowSession();
+    await session.connect();
+    if (appSessionId) session.resumeAppSession(appSessionId);
+
+    activeGames.set(gameId, {
+        gameId,
+        session,
+        appSessionId,
+        players: players.map(p => ({ walletAddress: p.walletAddress, amount: p.buyIn })),
+    });
+
+    console.log(`[Yellow] Restored session for game ${gameId}${appSessionId ? ` with App Session ${appSessionId}` : ''}`);
+}
+
 /**
  * Close the poker App Session with final allocations
- * Call this on showdown with winner information
+ * Call this when the hand or tournament the session funded is over
  */
 export async function settlePokerSession(
     gameId: string,
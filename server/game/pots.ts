@@ -0,0 +1,82 @@
+/**
+ * Pot distribution helpers
+ */
+
+import type { Player, Pot } from './types';
+
+export interface PotShare {
+    playerId: string;
+    amount: number;
+}
+
+/**
+ * Seat distance clockwise from the button: the first seat left of the button is 0
+ */
+function seatsLeftOfButton(seatIndex: number, buttonIndex: number, seatCount: number): number {
+    return (seatIndex - buttonIndex - 1 + seatCount) % seatCount;
+}
+
+/**
+ * Divide a pot evenly between its winners
+ * Chips that do not divide evenly go one at a time to the winners
+ * closest to the left of the button
+ */
+export function splitPot(amount: number, winnerIds: string[], players: Player[], buttonIndex: number): PotShare[] {
+    if (winnerIds.length === 0) return [];
+
+    const ordered = [...winnerIds].sort((a, b) => {
+        const seatA = players.findIndex(p => p.id === a);
+        const seatB = players.findIndex(p => p.id === b);
+        return seatsLeftOfButton(seatA, buttonIndex, players.length) - seatsLeftOfButton(seatB, buttonIndex, players.length);
+    });
+
+    const share = Math.floor(amount / ordered.length);
+    let oddChips = amount - share * ordered.length;
+
+    return ordered.map(playerId => {
+        const extra = oddChips > 0 ? 1 : 0;
+        oddChips -= extra;
+        return { playerId, amount: share + extra };
+    });
+}
+
+/**
+ * Display name for a pot: the main pot first, then numbered side pots
+ */
+export function potName(index: number): string {
+    return index === 0 ? 'Main pot' : `Side pot ${index}`;
+}
+
+/**
+ * Build the main pot and side pots from each player's chips committed this hand
+ * A side pot only starts above an all-in player's total: players who can still bet
+ * stay in every pot, so live bets sit in the main pot until someone is all-in.
+ * Folded players' chips stay in the pots they contributed to.
+ */
+export function buildPots(players: Player[]): Pot[] {
+    const live = players.filter(p => !p.folded);
+    const isAllIn = (p: Player) => p.chips === 0;
+    const total = players.reduce((sum, p) => sum + p.bet, 0);
+    const levels = [...new Set(live.filter(isAllIn).map(p => p.bet).filter(bet => bet > 0))].sort((a, b) => a - b);
+    const eligibleAbove = (level: number) => live.filter(p => !isAllIn(p) || p.bet > level).map(p => p.id);
+
+    const pots: Pot[] = [];
+    let previousLevel = 0;
+    for (const level of levels) {
+        const amount = players.reduce((sum, p) => sum + Math.min(p.bet, level) - Math.min(p.bet, previousLevel), 0);
+        pots.push({ amount, eligiblePlayerIds: eligibleAbove(previousLevel) });
+        previousLevel = level;
+    }
+
+    // Everything above the last all-in goes to the players still able to bet,
+    // or to the last pot when nobody is left above it
+    const rest = total - pots.reduce((sum, pot) => sum + pot.amount, 0);
+    const restEligible = eligibleAbove(previousLevel);
+    if (restEligible.length > 0 && (rest > 0 || pots.length === 0)) {
+        pots.push({ amount: rest, eligiblePlayerIds: restEligible });
+    } else if (pots.length > 0) {
+        pots[pots.length - 1].amount += rest;
+    }
+
+    return pots;
+}
@@ -0,0 +1,90 @@
+/**
+ * Shot clock and time bank
+ * The rules engine has no notion of time. The server runs the clock over the
+ * stored game after every action and checks or folds a player whose shot
+ * clock and time bank have both run out.
+ */
+
+import type { Game, TurnClock } from './types';
+import type { GameEvent, PlayerAction } from './poker-engine';
+
+function actedIn(events: GameEvent[], playerId: string): boolean {
+    return events.some(e =>
+        (e.type === 'playerFolded' || e.type === 'playerChecked' || e.type === 'playerBet') && e.playerId === playerId
+    );
+}
+
+/**
+ * Whether the clock still belongs to the player the game is waiting on
+ */
+function isSameTurn(clock: TurnClock, game: Game, events: GameEvent[]): boolean {
+    return game.phase.startsWith('betting')
+        && game.handNumber === clock.handNumber
+        && game.players[game.activePlayerIndex]?.id === clock.playerId
+        && !actedIn(events, clock.playerId);
+}
+
+/**
+ * Carry the clock across an action
+ * Charges the time bank for a turn that just ended, tops banks up on a new
+ * hand and starts the clock for the next player to act
+ */
+export function syncTurnClock(previous: Game, game: Game, events: GameEvent[], now: number): Game {
+    const next = structuredClone(game);
+    const clock = previous.turnClock;
+
+    if (clock && isSameTurn(clock, next, events)) {
+        next.turnClock = clock;
+        return next;
+    }
+
+    if (clock) {
+        const player = next.players.find(p => p.id === clock.playerId);
+        if (player) {
+            const overtime = Math.max(0, now - clock.actionEndsAt);
+            player.timeBankMs = Math.max(0, player.timeBankMs - overtime);
+        }
+    }
+
+    if (events.some(e => e.type === 'handStarted')) {
+        const maxBankMs = next.config.timeBankSeconds * 1000;
+        next.players.forEach(p => {
+            p.timeBankMs = Math.min(maxBankMs, p.timeBankMs + next.config.timeBankTopUpSeconds * 1000);
+        });
+    }
+
+    const toAct = next.players[next.activePlayerIndex];
+    if (!next.phase.startsWith('betting') || !toAct || next.config.actionSeconds === 0) {
+        next.turnClock = null;
+        return next;
+    }
+
+    const actionEndsAt = now + next.config.actionSeconds * 1000;
+    next.turnClock = {
+        playerId: toAct.id,
+        handNumber: next.handNumber,
+        startedAt: now,
+        actionEndsAt,
+        expiresAt: actionEndsAt + toAct.timeBankMs,
+    };
+    return next;
+}
+
+/**
+ * What a player does when their time runs out: check if they can, otherwise fold
+ */
+export function timeoutAction(game: Game): PlayerAction {
+    const player = game.players[game.activePlayerIndex];
+    const canCheck = player.roundBet >= game.highBet;
+    return { type: canCheck ? 'check' : 'fold', playerId: player.id };
+}
+
+/**
+ * Time left on the clock, split between the shot clock and the time bank
+ */
+export function remainingTime(clock: TurnClock, now: number): { actionMs: number; timeBankMs: number } {
+    return {
+        actionMs: Math.max(0, clock.actionEndsAt - now),
+        timeBankMs: Math.max(0, clock.expiresAt - Math.max(now, clock.actionEndsAt)),
+    };
+}
@@ -0,0 +1,84 @@
+/**
+ * SRA commutative encryption for mental-poker dealing
+ *
+ * Cards are encrypted as m^e mod p with a shared safe prime p = 2q + 1, so
+ * (m^a)^b = (m^b)^a and players can add and remove their own locks in any
+ * order. Cards are encoded as quadratic residues so every value stays in the
+ * prime-order subgroup and no ciphertext leaks a residuosity bit.
+ *
+ * The encoding and prime must stay identical to src/app/utils/mental-poker.ts
+ */
+
+import type { Card } from './types';
+import { createDeck } from './cards';
+
+// RFC 3526 2048-bit MODP group prime, a safe prime
+export const SRA_PRIME = BigInt(
+    '0xFFFFFFFFFFFFFFFFC90FDAA22168C234C4C6628B80DC1CD129024E088A67CC74020BBEA63B139B22' +
+    '514A08798E3404DDEF9519B3CD3A431B302B0A6DF25F14374FE1356D6D51C245E485B576625E7EC6F4' +
+    '4C42E9A637ED6B0BFF5CB6F406B7EDEE386BFB5A899FA5AE9F24117C4B1FE649286651ECE45B3DC200' +
+    '7CB8A163BF0598DA48361C55D39A69163FA8FD24CF5F83655D23DCA3AD961C62F356208552BB9ED529' +
+    '077096966D670C354E4ABC9804F1746C08CA18217C32905E462E36CE3BE39E772C180E86039B2783A2' +
+    'EC07A28FB5C55DF06F4C52C9DE2BCBF6955817183995497CEA956AE515D2261898FA051015728E5A8A' +
+    'ACAA68FFFFFFFFFFFFFFFF'
+);
+
+export function modPow(base: bigint, exponent: bigint, modulus: bigint): bigint {
+    let result = 1n;
+    let b = base % modulus;
+    let e = exponent;
+    while (e > 0n) {
+        if (e & 1n) result = (result * b) % modulus;
+        b = (b * b) % modulus;
+        e >>= 1n;
+    }
+    return result;
+}
+
+export function toHex(value: bigint): string {
+    return value.toString(16);
+}
+
+/**
+ * Parse a hex group element, or null if it is malformed or out of range
+ */
+export function parseElement(hex: unknown): bigint | null {
+    if (typeof hex !== 'string' || !/^[0-9a-f]{1,512}$/.test(hex)) return null;
+    const value = BigInt('0x' + hex);
+    return value > 1n && value < SRA_PRIME - 1n ? value : null;
+}
+
+/**
+ * Parse a hex decryption exponent, or null if it is malformed or out of range
+ */
+export function parseExponent(hex: unknown): bigint | null {
+    if (typeof hex !== 'string' || !/^[0-9a-f]{1,512}$/.test(hex)) return null;
+    const value = BigInt('0x' + hex);
+    return value > 0n && value < SRA_PRIME - 1n ? value : null;
+}
+
+/**
+ * Card i of createDeck() is encoded as (i + 2)^2 mod p
+ */
+export const CARD_ENCODINGS: bigint[] = createDeck().map((_, index) => modPow(BigInt(index + 2), 2n, SRA_PRIME));
+
+const CARDS_BY_ENCODING = new Map(createDeck().map((card, index) => [toHex(CARD_ENCODINGS[index]), card]));
+
+/**
+ * Encode a deck that leaves cards out, each card keeps its full-deck encoding
+ */
+export function encodeDeck(ranks: Card['rank'][]): bigint[] {
+    return createDeck().flatMap((card, index) => ranks.includes(card.rank) ? [CARD_ENCODINGS[index]] : []);
+}
+
+export function decodeCard(value: bigint): Card | null {
+    return CARDS_BY_ENCODING.get(toHex(value)) || null;
+}
+
+/**
+ * Remove every player's lock from a card: apply each decryption exponent in turn
+ */
+export function decryptCard(ciphertext: bigint, decryptionKeys: bigint[]): Card | null {
+    const plain = decryptionKeys.reduce((value, key) => modPow(value, key, SRA_PRIME), ciphertext);
+    return decodeCard(plain);
+}
@@ -0,0 +1,121 @@
+/**
+ * Per-recipient game state
+ * Each player only receives their own hole cards. Opponents' cards stay face
+ * down until they are shown down, and the deck never leaves the server.
+ */
+
+import type { Card, DeckFairness, FoldWinnerInfo, Game, GamePhase, Player, Pot, TableConfig, Tournament, WinnerInfo } from './types';
+import { maxRaiseTo, minRaiseTo } from './poker-engine';
+import { remainingTime } from './shot-clock';
+import { VARIANTS } from './variants';
+
+export type VisibleCard = Card | null;   // null is a face-down card
+
+export interface PlayerView extends Omit<Player, 'hand'> {
+    hand: VisibleCard[];
+}
+
+export interface FairnessView extends Omit<DeckFairness, 'seed'> {
+    seed: string | null;                 // null until the hand is over
+}
+
+export interface TurnClockView {
+    playerId: string;
+    actionMs: number;                    // Left on the shot clock
+    timeBankMs: number;                  // Left in the time bank after that
+}
+
+export interface GameView {
+    gameId: string;
+    yellowSessionId: string | null;
+    players: PlayerView[];
+    community: Card[];
+    pot: number;
+    pots: Pot[];
+    highBet: number;
+    minRaiseTo: number;
+    maxRaiseTo: number | null;           // Pot limit for the player to act, null for no limit
+    phase: GamePhase;
+    activePlayerIndex: number;
+    buttonIndex: number;
+    handNumber: number;
+    minBet: number;
+    config: TableConfig;
+    winner: WinnerInfo | null;
+    foldWinner: FoldWinnerInfo | null;
+    fairness: FairnessView | null;
+    turnClock: TurnClockView | null;
+    tournament: Tournament | null;       // Blind level, prizes and finishes, null for a cash game
+}
+
+/**
+ * Hole cards are shown down by every player still in the hand at showdown
+ */
+function isShownDown(game: Game, player: Player): boolean {
+    return game.phase === 'showdown' && player.isActive && !player.folded;
+}
+
+/**
+ * In a trustless deal the server never holds hole cards, so show the backs
+ * of the cards each player was dealt until they are opened at showdown
+ */
+function isDealtFaceDown(game: Game, player: Player): boolean {
+    const dealt = game.phase !== 'idle' && game.phase !== 'dealing';
+    return game.config.dealMode === 'trustless' && dealt && player.isActive && player.hand.length === 0;
+}
+
+function projectPlayer(game: Game, player: Player, viewerId: string | null): PlayerView {
+    if (isDealtFaceDown(game, player)) {
+        return { ...player, hand: Array(VARIANTS[game.config.variant].holeCards).fill(null) };
+    }
+
+    const canSeeHand = player.id === viewerId || isShownDown(game, player);
+    return {
+        ...player,
+        hand: canSeeHand ? player.hand : player.hand.map(() => null),
+    };
+}
+
+/**
+ * The deck commitment is public from the deal, the seed only once the hand is over
+ */
+function projectFairness(game: Game): FairnessView | null {
+    if (!game.fairness) return null;
+
+    const handOver = game.phase === 'idle' || game.phase === 'showdown';
+    return { ...game.fairness, seed: handOver ? game.fairness.seed : null };
+}
+
+function projectTurnClock(game: Game, now: number): TurnClockView | null {
+    if (!game.turnClock) return null;
+    return { playerId: game.turnClock.playerId, ...remainingTime(game.turnClock, now) };
+}
+
+/**
+ * Build the gameState payload for one recipient
+ * Pass a null viewerId for someone who is not seated at the table
+ */
+export function projectGameState(game: Game, viewerId: string | null, now = Date.now()): GameView {
+    return {
+        gameId: game.gameId,
+        yellowSessionId: game.yellowSessionId || null,
+        players: game.players.map(p => projectPlayer(game, p, viewerId)),
+        community: game.community,
+        pot: game.pot,
+        pots: game.pots,
+        highBet: game.highBet,
+        minRaiseTo: minRaiseTo(game),
+        maxRaiseTo: game.players[game.activePlayerIndex] ? maxRaiseTo(game, game.players[game.activePlayerIndex]) : null,
+        phase: game.phase,
+        activePlayerIndex: game.activePlayerIndex,
+        buttonIndex: game.buttonIndex,
+        handNumber: game.handNumber,
+        minBet: game.minBet,
+        config: game.config,
+        winner: game.winner || null,
+        foldWinner: game.foldWinner || null,
+        fairness: projectFairness(game),
+        turnClock: projectTurnClock(game, now),
+        tournament: game.tournament || null,
+    };
+}
@@ -0,0 +1,90 @@
+/**
+ * Table chat and emotes
+ * Checks what seated players send before the server relays it to the table.
+ * Nothing here is stored: chat lives only as long as the sockets that saw it.
+ */
+
+import type { Game } from './types';
+import { ActionError } from './errors';
+
+export const MAX_CHAT_LENGTH = 200;
+export const CHAT_RATE_LIMIT = 5;           // Messages a player may send per window, emotes included
+export const CHAT_RATE_WINDOW_MS = 10_000;
+
+export const EMOTES = ['👍', '👏', '😂', '😮', '😢', '😡', '🤔', '😎', '🔥', '💰'] as const;
+export type Emote = typeof EMOTES[number];
+
+export interface ChatMessage {
+    id: string;
+    gameId: string;
+    playerId: string;
+    name: string;
+    walletAddress: string | null;   // Lets clients keep a mute across tables
+    kind: 'chat' | 'emote';
+    text: string;                   // The message, or the emote itself
+    sentAt: number;
+}
+
+/**
+ * Trim a chat message and reject one that is empty or too long
+ */
+export function cleanChatText(text: unknown): string {
+    if (typeof text !== 'string') {
+        throw new ActionError('INVALID_CHAT', 'Chat message must be text');
+    }
+
+    // Control characters could break the line layout of other clients
+    const cleaned = text.replace(/[\u0000-\u001f\u007f]/g, ' ').trim();
+    if (cleaned.length === 0) {
+        throw new ActionError('INVALID_CHAT', 'Chat message is empty');
+    }
+    if (cleaned.length > MAX_CHAT_LENGTH) {
+        throw new ActionError('INVALID_CHAT', `Chat messages are limited to ${MAX_CHAT_LENGTH} characters`);
+    }
+    return cleaned;
+}
+
+export function assertEmote(emote: unknown): Emote {
+    if (!EMOTES.includes(emote as Emote)) {
+        throw new ActionError('INVALID_CHAT', 'Unknown emote');
+    }
+    return emote as Emote;
+}
+
+/**
+ * Count a message against its sender's rate limit
+ * Takes the times of their recent messages and returns them with this one added
+ */
+export function takeChatSlot(recent: number[], now: number): number[] {
+    const inWindow = recent.filter(sentAt => now - sentAt < CHAT_RATE_WINDOW_MS);
+    if (inWindow.length >= CHAT_RATE_LIMIT) {
+        const waitSeconds = Math.ceil((inWindow[0] + CHAT_RATE_WINDOW_MS - now) / 1000);
+        throw new ActionError('CHAT_RATE_LIMITED', `Slow down, you can chat again in ${waitSeconds}s`);
+    }
+    return [...inWindow, now];
+}
+
+export function createChatMessage(
+    id: string,
+    game: Game,
+    playerId: string,
+    kind: ChatMessage['kind'],
+    text: string,
+    now: number
+): ChatMessage {
+    const player = game.players.find(p => p.id === playerId);
+    if (!player) {
+        throw new ActionError('PLAYER_NOT_FOUND', 'Player not found');
+    }
+
+    return {
+        id,
+        gameId: game.gameId,
+        playerId,
+        name: player.name,
+        walletAddress: player.walletAddress,
+        kind,
+        text,
+        sentAt: now,
+    };
+}
@@ -0,0 +1,151 @@
+/**
+ * Table configuration
+ * Defaults and validation for the rules a table is created with
+ */
+
+import type { BettingStructure, DealMode, GamePhase, RebuyPolicy, TableConfig } from './types';
+import { GAME_VARIANTS, VARIANTS } from './variants';
+
+export const MIN_SEATS = 2;
+export const MAX_SEATS = 9;
+export const MAX_ACTION_SECONDS = 300;
+export const MAX_TIME_BANK_SECONDS = 600;
+export const MAX_SPECTATOR_DELAY_SECONDS = 600;
+export const FIXED_LIMIT_BET_CAP = 4;    // A bet and three raises a street
+export const MAX_STARTING_STACK = 1_000_000_000;
+export const MAX_BUY_IN_USDC = 1000;
+export const MAX_CHIPS_PER_USDC = 1_000_000; // USDC has six decimals, a chip is worth at least one unit
+
+export const DEFAULT_TABLE_CONFIG: TableConfig = {
+    variant: 'holdem',
+    bettingStructure: 'no-limit',
+    smallBlind: 10,
+    bigBlind: 20,
+    ante: 0,
+    seats: 6,
+    startingStack: 1000,
+    buyInUsdc: 0.1,
+    chipsPerUsdc: 10_000,      // 1000 chips for the 0.10 USDC buy-in
+    rebuyPolicy: 'auto',
+    dealMode: 'server',
+    actionSeconds: 30,
+    timeBankSeconds: 60,
+    timeBankTopUpSeconds: 10,
+    spectatorDelaySeconds: 0,
+};
+
+const DEAL_MODES: DealMode[] = ['server', 'trustless'];
+const BETTING_STRUCTURES: BettingStructure[] = ['no-limit', 'pot-limit', 'fixed-limit'];
+const REBUY_POLICIES: RebuyPolicy[] = ['auto', 'none'];
+
+/**
+ * The smallest opening bet and raise: the big blind, or the ante at an ante-only table
+ */
+export function minimumBet(config: TableConfig): number {
+    return config.bigBlind > 0 ? config.bigBlind : config.ante;
+}
+
+/**
+ * The size of every bet and raise on a fixed-limit street: the small bet preflop and
+ * on the flop, the big bet (twice that) on the turn and river
+ */
+export function fixedLimitBet(config: TableConfig, phase: GamePhase): number {
+    const isBigBetStreet = phase === 'betting3' || phase === 'betting4';
+    return minimumBet(config) * (isBigBetStreet ? 2 : 1);
+}
+
+function isChipAmount(value: unknown): value is number {
+    return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+function isSeconds(value: unknown, max: number): value is number {
+    return typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= max;
+}
+
+/**
+ * Merge a partial config from a createGame request over the defaults
+ * Throws if the result is not a playable table
+ */
+export function resolveTableConfig(input: Partial<TableConfig> = {}): TableConfig {
+    const overrides = Object.fromEntries(Object.entries(input).filter(([, value]) => value !== undefined));
+    // Each variant is played in its usual structure unless the table picks another
+    const variant = (overrides.variant ?? DEFAULT_TABLE_CONFIG.variant) as TableConfig['variant'];
+    const variantDefaults = { bettingStructure: VARIANTS[variant]?.bettingStructure ?? DEFAULT_TABLE_CONFIG.bettingStructure };
+    const config: TableConfig = { ...DEFAULT_TABLE_CONFIG, ...variantDefaults, ...overrides };
+
+    for (const key of ['smallBlind', 'bigBlind', 'ante'] as const) {
+        if (!isChipAmount(config[key])) {
+            throw new Error(`${key} must be a whole number of chips`);
+        }
+    }
+
+    // Ante-only tables post no blinds at all
+    if (config.bigBlind <= 0 && (config.smallBlind > 0 || config.ante <= 0)) {
+        throw new Error('bigBlind must be greater than 0 unless the table plays antes only');
+    }
+
+    if (config.smallBlind > config.bigBlind) {
+        throw new Error('smallBlind cannot be larger than bigBlind');
+    }
+
+    if (!Number.isInteger(config.seats) || config.seats < MIN_SEATS || config.seats > MAX_SEATS) {
+        throw new Error(`seats must be between ${MIN_SEATS} and ${MAX_SEATS}`);
+    }
+
+    if (!isChipAmount(config.startingStack) || config.startingStack > MAX_STARTING_STACK) {
+        throw new Error(`startingStack must be a whole number of chips up to ${MAX_STARTING_STACK}`);
+    }
+
+    if (config.startingStack < minimumBet(config)) {
+        throw new Error('startingStack must cover at least one big blind');
+    }
+
+    if (typeof config.buyInUsdc !== 'number' || !(config.buyInUsdc >= 0) || config.buyInUsdc > MAX_BUY_IN_USDC) {
+        throw new Error(`buyInUsdc must be between 0 and ${MAX_BUY_IN_USDC} USDC`);
+    }
+
+    // The stack is what the buy-in pays for, so the rate follows from the two unless the table sets it
+    if (config.buyInUsdc > 0 && overrides.chipsPerUsdc === undefined) {
+        config.chipsPerUsdc = Math.round(config.startingStack / config.buyInUsdc);
+    }
+
+    if (!Number.isInteger(config.chipsPerUsdc) || config.chipsPerUsdc < 1 || config.chipsPerUsdc > MAX_CHIPS_PER_USDC) {
+        throw new Error(`chipsPerUsdc must be a whole number from 1 to ${MAX_CHIPS_PER_USDC}`);
+    }
+
+    if (config.buyInUsdc > 0 && Math.abs(config.buyInUsdc * config.chipsPerUsdc - config.startingStack) > 1e-6) {
+        throw new Error('startingStack must equal buyInUsdc times chipsPerUsdc, so a stack cashes out for what it cost');
+    }
+
+    if (!REBUY_POLICIES.includes(config.rebuyPolicy)) {
+        throw new Error(`rebuyPolicy must be one of ${REBUY_POLICIES.join(', ')}`);
+    }
+
+    if (!GAME_VARIANTS.includes(config.variant)) {
+        throw new Error(`variant must be one of ${GAME_VARIANTS.join(', ')}`);
+    }
+
+    if (!BETTING_STRUCTURES.includes(config.bettingStructure)) {
+        throw new Error(`bettingStructure must be one of ${BETTING_STRUCTURES.join(', ')}`);
+    }
+
+    if (!DEAL_MODES.includes(config.dealMode)) {
+        throw new Error(`dealMode must be one of ${DEAL_MODES.join(', ')}`);
+    }
+
+    if (!isSeconds(config.actionSeconds, MAX_ACTION_SECONDS)) {
+        throw new Error(`actionSeconds must be a whole number of seconds up to ${MAX_ACTION_SECONDS}`);
+    }
+
+    for (const key of ['timeBankSeconds', 'timeBankTopUpSeconds'] as const) {
+        if (!isSeconds(config[key], MAX_TIME_BANK_SECONDS)) {
+            throw new Error(`${key} must be a whole number of seconds up to ${MAX_TIME_BANK_SECONDS}`);
+        }
+    }
+
+    if (!isSeconds(config.spectatorDelaySeconds, MAX_SPECTATOR_DELAY_SECONDS)) {
+        throw new Error(`spectatorDelaySeconds must be a whole number of seconds up to ${MAX_SPECTATOR_DELAY_SECONDS}`);
+    }
+
+    return config;
+}
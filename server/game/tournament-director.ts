@@ -0,0 +1,263 @@
+/**
+ * Multi-table tournament director
+ * Sits above the tables of one tournament: seats the entrants, keeps the tables
+ * within a player of each other as people bust, breaks tables down to the final
+ * one and runs a single blind clock for all of them. Everything here is pure,
+ * the server applies the seat moves to its live games between hands.
+ */
+
+import type { Game, MultiTableTournament, Player, TableConfig, TournamentConfig, TournamentEntrant } from './types';
+import type { GameEvent } from './poker-engine';
+import { ActionError } from './errors';
+import { minimumBet, resolveTableConfig } from './table-config';
+import { createTournament, currentLevel, moveUpLevel, recordKnockouts, resolveTournamentConfig, startTournament, tournamentTableRules } from './tournament';
+
+export const MAX_ENTRANTS = 1000;
+
+export interface SeatMove {
+    playerId: string;
+    fromGameId: string;
+    toGameId: string;
+}
+
+export interface SeatPlan {
+    moves: SeatMove[];
+    brokenTableIds: string[];    // Emptied by the moves and out of play
+}
+
+/**
+ * Set up a tournament for registration with its host as the first entrant
+ * The blinds go up on a clock so every table moves up together. Throws if the setup cannot be played
+ */
+export function createMultiTableTournament(
+    tournamentId: string,
+    host: TournamentEntrant,
+    tableInput: Partial<TableConfig>,
+    input: Partial<TournamentConfig> = {},
+): MultiTableTournament {
+    const config = resolveTournamentConfig({ ...input, levelBy: input.levelBy ?? 'minutes' });
+    if (config.levelBy !== 'minutes') {
+        throw new Error('A multi-table tournament moves its blinds up on a clock, levelBy must be minutes');
+    }
+
+    const tournament = { ...createTournament(config), tournamentId };
+    return {
+        tournamentId,
+        hostId: host.playerId,
+        yellowSessionId: null,
+        tableConfig: resolveTableConfig({ ...tableInput, ...tournamentTableRules(tournament) }),
+        tournament,
+        registrants: [host],
+        tableIds: [],
+    };
+}
+
+export function registerEntrant(mtt: MultiTableTournament, entrant: TournamentEntrant): MultiTableTournament {
+    if (mtt.tournament.status !== 'registering') {
+        throw new ActionError('INVALID_TOURNAMENT', 'The tournament has already started');
+    }
+    if (mtt.registrants.length >= MAX_ENTRANTS) {
+        throw new ActionError('INVALID_TOURNAMENT', 'The tournament is full');
+    }
+    return { ...mtt, registrants: [...mtt.registrants, entrant] };
+}
+
+/**
+ * Fewest tables that seat everyone
+ */
+export function tablesNeeded(players: number, seats: number): number {
+    return Math.ceil(players / seats);
+}
+
+function seatedPlayer(entrant: TournamentEntrant, chips: number, timeBankMs: number): Player {
+    return {
+        id: entrant.playerId,
+        name: entrant.name,
+        walletAddress: entrant.walletAddress,
+        chips,
+        bet: 0,
+        roundBet: 0,
+        hand: [],
+        folded: false,
+        isActive: true,
+        hasDealerChip: false,
+        actedThisRound: false,
+        timeBankMs,
+    };
+}
+
+/**
+ * Close registration and deal the entrants round the tables, one each in turn,
+ * so no table has more than one player more than another
+ */
+export function startMultiTableTournament(mtt: MultiTableTournament, tableIds: string[], now: number): { mtt: MultiTableTournament; tables: Game[] } {
+    if (mtt.tournament.status !== 'registering') {
+        throw new ActionError('INVALID_TOURNAMENT', 'The tournament has already started');
+    }
+    if (mtt.registrants.length < 2) {
+        throw new ActionError('NOT_ENOUGH_PLAYERS', 'Need at least 2 players to start the tournament');
+    }
+    if (tableIds.length !== tablesNeeded(mtt.registrants.length, mtt.tableConfig.seats)) {
+        throw new Error(`Seating ${mtt.registrants.length} players needs ${tablesNeeded(mtt.registrants.length, mtt.tableConfig.seats)} tables`);
+    }
+
+    const tournament = structuredClone(mtt.tournament);
+    startTournament(tournament, mtt.registrants.length, now, 1);
+    const config = { ...mtt.tableConfig, ...currentLevel(tournament) };
+
+    const tables: Game[] = tableIds.map((gameId, t) => ({
+        gameId,
+        gameType: 'online',
+        yellowSessionId: null,
+        players: mtt.registrants
+            .filter((_, i) => i % tableIds.length === t)
+            .map(entrant => seatedPlayer(entrant, tournament.config.startingStack, config.timeBankSeconds * 1000)),
+        community: [],
+        pot: 0,
+        pots: [],
+        highBet: 0,
+        lastRaise: minimumBet(config),
+        phase: 'idle',
+        activePlayerIndex: 0,
+        buttonIndex: 0,
+        handNumber: 0,
+        minBet: minimumBet(config),
+        config,
+        deck: null,
+        tournament,
+    }));
+    tables.forEach(table => { table.players[0].hasDealerChip = true; });
+
+    return { mtt: { ...mtt, tournament, tableIds }, tables };
+}
+
+/**
+ * Get a table ready for its next deal on the shared blind clock
+ * The blinds go up for every table at once, each table picks them up from its next hand
+ */
+export function prepareTableHand(mtt: MultiTableTournament, game: Game, now: number): { mtt: MultiTableTournament; game: Game } {
+    if (mtt.tournament.status === 'finished') {
+        throw new ActionError('TOURNAMENT_OVER', 'The tournament is over');
+    }
+
+    const tournament = structuredClone(mtt.tournament);
+    moveUpLevel(tournament, game.handNumber + 1, now);
+    const { smallBlind, bigBlind, ante } = currentLevel(tournament);
+
+    return {
+        mtt: { ...mtt, tournament },
+        game: { ...structuredClone(game), tournament, config: { ...game.config, smallBlind, bigBlind, ante } },
+    };
+}
+
+/**
+ * Knock out everyone a table's last hand busted, ranked against the whole field
+ */
+export function knockOutAtTable(mtt: MultiTableTournament, game: Game, events: GameEvent[]): MultiTableTournament {
+    if (mtt.tournament.status !== 'running') return mtt;
+
+    const tournament = structuredClone(mtt.tournament);
+    const finished = new Set(tournament.finishes.map(f => f.playerId));
+    const busted = game.players.filter(p => p.chips === 0 && !finished.has(p.id));
+    if (busted.length === 0) return mtt;
+
+    const playersLeft = tournament.entrants - tournament.finishes.length;
+    recordKnockouts(tournament, busted, playersLeft, game.players.filter(p => p.chips > 0), events);
+    return { ...mtt, tournament };
+}
+
+export function isHandInProgress(game: Game): boolean {
+    return game.phase !== 'idle' && game.phase !== 'showdown';
+}
+
+/**
+ * Players still in the tournament at a table
+ */
+function inPlay(game: Game): string[] {
+    return game.players.filter(p => p.chips > 0).map(p => p.id);
+}
+
+/**
+ * Plan the seat moves that keep the field on as few tables as it fits, each within
+ * one player of the others. Players only leave a table between its hands, so
+ * lockedTableIds lists the tables that are dealing or still showing a hand down;
+ * they can take players but keep their own.
+ */
+export function planSeatMoves(tables: Game[], seats: number, lockedTableIds: Set<string>): SeatPlan {
+    const seated = new Map(tables.map(t => [t.gameId, inPlay(t)]));
+    const count = (gameId: string) => seated.get(gameId)!.length;
+    const canMoveFrom = (gameId: string) => !lockedTableIds.has(gameId) && !isHandInProgress(tables.find(t => t.gameId === gameId)!);
+    const moves: SeatMove[] = [];
+    const brokenTableIds: string[] = [];
+
+    const move = (fromGameId: string, toGameId: string) => {
+        const playerId = seated.get(fromGameId)!.pop()!;
+        seated.get(toGameId)!.push(playerId);
+        moves.push({ playerId, fromGameId, toGameId });
+    };
+    const smallest = (open: string[]) => [...open].sort((a, b) => count(a) - count(b))[0];
+
+    let open = tables.map(t => t.gameId);
+    const alive = open.reduce((sum, id) => sum + count(id), 0);
+
+    // Break the smallest tables the field no longer needs, down to the final table
+    const breakable = open.filter(canMoveFrom).sort((a, b) => count(a) - count(b));
+    while (open.length > tablesNeeded(alive, seats) && breakable.length > 0) {
+        const broken = breakable.shift()!;
+        open = open.filter(id => id !== broken);
+        brokenTableIds.push(broken);
+        while (count(broken) > 0) move(broken, smallest(open));
+    }
+
+    // Then even out what is left, a player at a time from the biggest table to the smallest
+    for (;;) {
+        const to = smallest(open);
+        const from = open.filter(canMoveFrom).sort((a, b) => count(b) - count(a))[0];
+        if (!from || count(from) - count(to) <= 1) break;
+        move(from, to);
+    }
+
+    return { moves, brokenTableIds };
+}
+
+/**
+ * Take a player out of a table between hands
+ * The button stays with its player, or on the empty seat so it moves on to the next one
+ */
+export function unseatPlayer(game: Game, playerId: string): { game: Game; player: Player } {
+    const next = structuredClone(game);
+    const index = next.players.findIndex(p => p.id === playerId);
+    if (index === -1) {
+        throw new ActionError('PLAYER_NOT_FOUND', 'Player not found');
+    }
+
+    const [player] = next.players.splice(index, 1);
+    const seatsLeft = Math.max(1, next.players.length);
+    if (index <= next.buttonIndex) {
+        next.buttonIndex = (next.buttonIndex - 1 + seatsLeft) % seatsLeft;
+    }
+    next.activePlayerIndex = Math.min(next.activePlayerIndex, seatsLeft - 1);
+    return { game: next, player };
+}
+
+/**
+ * Seat a player moved in from another table with their stack and time bank
+ * A player moved into a hand in progress sits out until the next deal
+ */
+export function seatMovedPlayer(game: Game, player: Player): Game {
+    const next = structuredClone(game);
+    const handInProgress = next.phase !== 'idle';
+    next.players.push({
+        ...player,
+        bet: 0,
+        roundBet: 0,
+        hand: [],
+        folded: handInProgress,
+        isActive: !handInProgress,
+        hasDealerChip: false,
+        actedThisRound: false,
+        raiseClosed: false,
+        handType: undefined,
+    });
+    return next;
+}
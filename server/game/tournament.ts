@@ -0,0 +1,260 @@
+/**
+ * Sit-and-go tournaments
+ * The blind schedule, the prize pool and knockouts. Like the shot clock, the
+ * blind clock runs outside the rules engine: the server moves the blinds up
+ * over the stored game before each deal.
+ */
+
+import type { BlindLevel, Game, Player, TableConfig, Tournament, TournamentConfig, TournamentFinish } from './types';
+import type { GameEvent } from './poker-engine';
+import { ActionError } from './errors';
+import { MAX_BUY_IN_USDC } from './table-config';
+
+export const MAX_LEVEL_LENGTH = 120;     // Hands or minutes
+
+const USDC_UNITS = 1_000_000;            // USDC has six decimals
+
+export const DEFAULT_BLIND_LEVELS: BlindLevel[] = [
+    { smallBlind: 10, bigBlind: 20, ante: 0 },
+    { smallBlind: 15, bigBlind: 30, ante: 0 },
+    { smallBlind: 25, bigBlind: 50, ante: 0 },
+    { smallBlind: 50, bigBlind: 100, ante: 0 },
+    { smallBlind: 75, bigBlind: 150, ante: 0 },
+    { smallBlind: 100, bigBlind: 200, ante: 25 },
+    { smallBlind: 150, bigBlind: 300, ante: 25 },
+    { smallBlind: 200, bigBlind: 400, ante: 50 },
+    { smallBlind: 300, bigBlind: 600, ante: 75 },
+    { smallBlind: 500, bigBlind: 1000, ante: 100 },
+];
+
+export const DEFAULT_TOURNAMENT_CONFIG: TournamentConfig = {
+    startingStack: 1500,
+    levels: DEFAULT_BLIND_LEVELS,
+    levelBy: 'hands',
+    levelLength: 10,
+    buyIn: 0,
+    payouts: null,
+};
+
+function isChipAmount(value: unknown): value is number {
+    return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+function isValidLevel(level: BlindLevel): boolean {
+    return isChipAmount(level?.smallBlind) && isChipAmount(level?.bigBlind) && isChipAmount(level?.ante)
+        && level.bigBlind > 0 && level.smallBlind <= level.bigBlind;
+}
+
+/**
+ * Merge a partial tournament setup from a createGame request over the defaults
+ * Throws if the result cannot be played
+ */
+export function resolveTournamentConfig(input: Partial<TournamentConfig> = {}): TournamentConfig {
+    const overrides = Object.fromEntries(Object.entries(input).filter(([, value]) => value !== undefined));
+    const config: TournamentConfig = { ...DEFAULT_TOURNAMENT_CONFIG, ...overrides };
+
+    if (!isChipAmount(config.startingStack) || config.startingStack === 0) {
+        throw new Error('startingStack must be a whole number of chips greater than 0');
+    }
+
+    if (!Array.isArray(config.levels) || config.levels.length === 0 || !config.levels.every(isValidLevel)) {
+        throw new Error('levels must list at least one level of whole-chip blinds, the small blind no larger than the big blind');
+    }
+
+    if (config.levelBy !== 'hands' && config.levelBy !== 'minutes') {
+        throw new Error('levelBy must be one of hands, minutes');
+    }
+
+    if (!Number.isInteger(config.levelLength) || config.levelLength < 1 || config.levelLength > MAX_LEVEL_LENGTH) {
+        throw new Error(`levelLength must be between 1 and ${MAX_LEVEL_LENGTH} ${config.levelBy}`);
+    }
+
+    if (typeof config.buyIn !== 'number' || !(config.buyIn >= 0) || config.buyIn > MAX_BUY_IN_USDC) {
+        throw new Error(`buyIn must be between 0 and ${MAX_BUY_IN_USDC} USDC`);
+    }
+
+    if (config.payouts !== null) {
+        const valid = Array.isArray(config.payouts) && config.payouts.length > 0
+            && config.payouts.every(p => typeof p === 'number' && p >= 0)
+            && Math.abs(config.payouts.reduce((sum, p) => sum + p, 0) - 100) < 1e-9;
+        if (!valid) {
+            throw new Error('payouts must be percentages of the prize pool that add up to 100');
+        }
+    }
+
+    return config;
+}
+
+/**
+ * The usual sit-and-go payouts: winner takes all short-handed, three places paid at a full table
+ */
+export function defaultPayouts(entrants: number): number[] {
+    if (entrants <= 3) return [100];
+    if (entrants <= 6) return [65, 35];
+    return [50, 30, 20];
+}
+
+/**
+ * Split the prize pool by position, rounding down to whole USDC units
+ * with anything left over going to the winner
+ */
+function splitPrizePool(config: TournamentConfig, entrants: number): number[] {
+    const poolUnits = Math.round(config.buyIn * USDC_UNITS) * entrants;
+    const percentages = (config.payouts || defaultPayouts(entrants)).slice(0, entrants);
+    const units = percentages.map(p => Math.floor(poolUnits * p / 100));
+    units[0] += poolUnits - units.reduce((sum, u) => sum + u, 0);
+    return units.map(u => u / USDC_UNITS);
+}
+
+export function createTournament(config: TournamentConfig): Tournament {
+    return {
+        config,
+        status: 'registering',
+        level: 0,
+        levelStartedAt: 0,
+        levelStartedHand: 1,
+        entrants: 0,
+        prizes: [],
+        finishes: [],
+        tournamentId: null,
+    };
+}
+
+export function currentLevel(tournament: Tournament): BlindLevel {
+    return tournament.config.levels[tournament.level];
+}
+
+/**
+ * The table rules a tournament decides: the level's blinds, its starting stack and no rebuys
+ * The tournament buy-in pays for the stack, so its tables take no buy-in of their own
+ */
+export function tournamentTableRules(tournament: Tournament): Partial<TableConfig> {
+    return { ...currentLevel(tournament), startingStack: tournament.config.startingStack, buyInUsdc: 0, rebuyPolicy: 'none' };
+}
+
+function isLevelOver(tournament: Tournament, nextHandNumber: number, now: number): boolean {
+    const { levelBy, levelLength } = tournament.config;
+    return levelBy === 'hands'
+        ? nextHandNumber - tournament.levelStartedHand >= levelLength
+        : now - tournament.levelStartedAt >= levelLength * 60_000;
+}
+
+/**
+ * Close registration: fix the prize pool and start the first level
+ */
+export function startTournament(tournament: Tournament, entrants: number, now: number, firstHandNumber: number): void {
+    tournament.status = 'running';
+    tournament.entrants = entrants;
+    tournament.prizes = splitPrizePool(tournament.config, entrants);
+    tournament.level = 0;
+    tournament.levelStartedAt = now;
+    tournament.levelStartedHand = firstHandNumber;
+}
+
+/**
+ * Move the blinds up once a level is over, the last level never ends
+ * Returns whether the level changed
+ */
+export function moveUpLevel(tournament: Tournament, nextHandNumber: number, now: number): boolean {
+    if (tournament.level >= tournament.config.levels.length - 1 || !isLevelOver(tournament, nextHandNumber, now)) {
+        return false;
+    }
+    tournament.level += 1;
+    tournament.levelStartedAt = now;
+    tournament.levelStartedHand = nextHandNumber;
+    return true;
+}
+
+/**
+ * Get a tournament table ready for its next deal
+ * Closes registration before the first hand and moves the blinds up once a level is over.
+ * Throws once the tournament is over.
+ */
+export function prepareTournamentHand(game: Game, now: number): Game {
+    const next = structuredClone(game);
+    const tournament = next.tournament;
+    if (!tournament) return next;
+
+    const nextHandNumber = next.handNumber + 1;
+    if (tournament.status === 'finished') {
+        throw new ActionError('TOURNAMENT_OVER', 'The tournament is over');
+    }
+
+    if (tournament.status === 'registering') {
+        const entrants = next.players.filter(p => p.chips > 0).length;
+        if (entrants < 2) {
+            throw new ActionError('NOT_ENOUGH_PLAYERS', 'Need at least 2 players to start the tournament');
+        }
+        startTournament(tournament, entrants, now, nextHandNumber);
+    } else {
+        moveUpLevel(tournament, nextHandNumber, now);
+    }
+
+    const { smallBlind, bigBlind, ante } = currentLevel(tournament);
+    next.config = { ...next.config, smallBlind, bigBlind, ante };
+    return next;
+}
+
+/**
+ * Record the players a hand busted and finish the tournament when one player is left
+ * Players busted in the same hand finish in order of the stacks they started it with.
+ * Equal stacks tie for the best of the places they cover and split those places' prizes.
+ * playersLeft counts everyone still in the tournament, the busted players included.
+ */
+export function recordKnockouts(tournament: Tournament, busted: Player[], playersLeft: number, survivors: Player[], events: GameEvent[]): void {
+    const finish = (player: Player, position: number, prize: number): TournamentFinish => ({
+        playerId: player.id,
+        name: player.name,
+        walletAddress: player.walletAddress,
+        position,
+        prize,
+    });
+    const prizeUnits = (position: number) => Math.round((tournament.prizes[position - 1] || 0) * USDC_UNITS);
+
+    // A busted player lost everything they started the hand with
+    const startedWith = (player: Player) => player.handStartChips ?? player.bet;
+    const ties = new Map<number, Player[]>();
+    [...busted].sort((a, b) => startedWith(a) - startedWith(b)).forEach(player => {
+        ties.set(startedWith(player), [...(ties.get(startedWith(player)) || []), player]);
+    });
+
+    let worst = playersLeft;
+    for (const tied of ties.values()) {
+        const best = worst - tied.length + 1;
+        let units = 0;
+        for (let position = best; position <= worst; position++) units += prizeUnits(position);
+
+        // Units that do not divide evenly go one at a time to the first of the tied players
+        const share = Math.floor(units / tied.length);
+        let oddUnits = units - share * tied.length;
+        tied.forEach(player => {
+            const extra = oddUnits > 0 ? 1 : 0;
+            oddUnits -= extra;
+            const result = finish(player, best, (share + extra) / USDC_UNITS);
+            tournament.finishes.push(result);
+            events.push({ type: 'playerEliminated', playerId: player.id, position: result.position, prize: result.prize });
+        });
+        worst = best - 1;
+    }
+
+    if (playersLeft - busted.length === 1 && survivors.length === 1) {
+        const winner = finish(survivors[0], 1, tournament.prizes[0] || 0);
+        tournament.finishes.push(winner);
+        tournament.status = 'finished';
+        events.push({ type: 'tournamentFinished', winnerId: winner.playerId, prize: winner.prize });
+    }
+}
+
+/**
+ * Knock out everyone the hand just busted at a sit-and-go
+ * The director ranks knockouts across every table of a multi-table tournament
+ */
+export function knockOutBustedPlayers(game: Game, events: GameEvent[]): void {
+    const tournament = game.tournament;
+    if (!tournament || tournament.status !== 'running' || tournament.tournamentId) return;
+
+    const finished = new Set(tournament.finishes.map(f => f.playerId));
+    const busted = game.players.filter(p => p.chips === 0 && !finished.has(p.id));
+    const survivors = game.players.filter(p => p.chips > 0);
+    recordKnockouts(tournament, busted, survivors.length + busted.length, survivors, events);
+}
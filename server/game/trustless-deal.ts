@@ -0,0 +1,367 @@
+/**
+ * Trustless dealing (mental poker)
+ *
+ * In trustless mode the server never sees the deck. The players dealt into a
+ * hand take turns to:
+ *  1. shuffle: lock every card with one key of their own and permute the deck
+ *  2. lock: swap that key for a separate key per card, so cards can be
+ *     opened one at a time
+ * A card opens once every player has published their decryption key for it.
+ * Everyone except the owner publishes keys for a hole card, so only the owner
+ * can read it. Board cards and shown-down hands get every key and the server
+ * opens them for the rules engine.
+ *
+ * The server only relays and validates messages. Every accepted message is
+ * signed with the sender's deal key and appended to a hash-chained transcript
+ * kept for disputes.
+ */
+
+import { createHash, createPublicKey, verify, type JsonWebKey } from 'crypto';
+import type { Card } from './types';
+import { ActionError } from './errors';
+import { decryptCard, encodeDeck, parseElement, parseExponent, toHex } from './sra';
+
+export type DealStep = 'shuffle' | 'lock' | 'keys';
+
+export type KeyRequestReason = 'holes' | 'community' | 'showdown';
+
+export interface KeyRequest {
+    reason: KeyRequestReason;
+    required: Record<string, number[]>;      // playerId → deck positions they must publish keys for
+}
+
+/**
+ * A completed key request whose cards did not open
+ */
+export interface FailedReveal {
+    reason: KeyRequestReason;
+    playerIds: string[];                     // Players whose own keys failed, empty when nobody can be singled out
+}
+
+export interface DealMessage {
+    step: DealStep;
+    data: string[] | Record<string, string>; // A deck for shuffle and lock, position → key for keys
+    signature: string;                       // ECDSA P-256 over signedDealPayload, hex
+}
+
+export interface TranscriptEntry {
+    seq: number;
+    playerId: string;
+    step: DealStep;
+    data: DealMessage['data'];
+    signature: string;
+    prevHash: string;
+    hash: string;
+}
+
+export interface DealSession {
+    gameId: string;
+    handNumber: number;
+    playerIds: string[];                     // Players dealt in, in dealing order
+    publicKeys: Record<string, JsonWebKey>;
+    stage: 'shuffle' | 'lock' | 'keys';
+    turn: number;                            // Index into playerIds while shuffling and locking
+    deck: string[];                          // Current encrypted deck, hex
+    holePositions: Record<string, number[]>;
+    communityPositions: number[];
+    communityOpened: number;
+    request: KeyRequest | null;
+    keys: Record<string, Record<string, string>>; // position → playerId → decryption key, hex
+    transcript: TranscriptEntry[];
+}
+
+const GENESIS_HASH = '0'.repeat(64);
+
+function sha256(text: string): string {
+    return createHash('sha256').update(text).digest('hex');
+}
+
+/**
+ * Check a deal public key registered by a player: an ECDSA P-256 key as a JWK
+ */
+export function parseDealPublicKey(jwk: unknown): JsonWebKey {
+    try {
+        const key = createPublicKey({ key: jwk as JsonWebKey, format: 'jwk' });
+        if (key.asymmetricKeyType === 'ec' && key.asymmetricKeyDetails?.namedCurve === 'prime256v1') {
+            return key.export({ format: 'jwk' });
+        }
+    } catch {
+        // Fall through to the error below
+    }
+    throw new ActionError('INVALID_DEAL_MESSAGE', 'Deal key must be an ECDSA P-256 public key');
+}
+
+/**
+ * The exact string a player signs for a deal message
+ */
+export function signedDealPayload(gameId: string, handNumber: number, step: DealStep, data: DealMessage['data']): string {
+    return JSON.stringify({ gameId, handNumber, step, data });
+}
+
+function verifySignature(publicKey: JsonWebKey, payload: string, signature: string): boolean {
+    try {
+        const key = createPublicKey({ key: publicKey, format: 'jwk' });
+        return verify('sha256', Buffer.from(payload), { key, dsaEncoding: 'ieee-p1363' }, Buffer.from(signature, 'hex'));
+    } catch {
+        return false;
+    }
+}
+
+export function createDealSession(
+    gameId: string,
+    handNumber: number,
+    playerIds: string[],
+    publicKeys: Record<string, JsonWebKey>,
+    holeCards: number,
+    deckRanks: Card['rank'][]
+): DealSession {
+    const missing = playerIds.filter(id => !publicKeys[id]);
+    if (missing.length > 0) {
+        throw new ActionError('INVALID_DEAL_MESSAGE', 'Every player must register a deal key before a trustless deal');
+    }
+
+    const holePositions: Record<string, number[]> = {};
+    playerIds.forEach((id, seat) => {
+        holePositions[id] = Array.from({ length: holeCards }, (_, i) => seat * holeCards + i);
+    });
+    const boardStart = playerIds.length * holeCards;
+
+    return {
+        gameId,
+        handNumber,
+        playerIds: [...playerIds],
+        publicKeys: Object.fromEntries(playerIds.map(id => [id, publicKeys[id]])),
+        stage: 'shuffle',
+        turn: 0,
+        deck: encodeDeck(deckRanks).map(toHex),
+        holePositions,
+        communityPositions: [0, 1, 2, 3, 4].map(i => boardStart + i),
+        communityOpened: 0,
+        request: null,
+        keys: {},
+        transcript: [],
+    };
+}
+
+function validateDeck(data: DealMessage['data'], size: number): string[] {
+    if (!Array.isArray(data) || data.length !== size) {
+        throw new ActionError('INVALID_DEAL_MESSAGE', `Deck must have ${size} cards`);
+    }
+
+    const values = data.map(parseElement);
+    if (values.some(value => value === null)) {
+        throw new ActionError('INVALID_DEAL_MESSAGE', 'Deck contains an invalid card');
+    }
+
+    const deck = values.map(value => toHex(value!));
+    if (new Set(deck).size !== deck.length) {
+        throw new ActionError('INVALID_DEAL_MESSAGE', 'Deck contains duplicate cards');
+    }
+    return deck;
+}
+
+export function requestIsComplete(session: DealSession): boolean {
+    const { request } = session;
+    if (!request) return false;
+    return Object.entries(request.required).every(([playerId, positions]) =>
+        positions.every(position => session.keys[position]?.[playerId])
+    );
+}
+
+/**
+ * The players the deal is waiting on: whoever's turn it is to shuffle or lock,
+ * or everyone who still owes keys to the open request
+ */
+export function withholdingPlayers(session: DealSession): string[] {
+    if (session.stage !== 'keys') return [session.playerIds[session.turn]];
+    if (!session.request) return [];
+    return Object.entries(session.request.required)
+        .filter(([playerId, positions]) => positions.some(position => !session.keys[position]?.[playerId]))
+        .map(([playerId]) => playerId);
+}
+
+/**
+ * Validate and apply a signed deal message from a player
+ * Returns the key request the message completed, if any, or the reveal it made fail.
+ * Keys are checked before a request is cleared, so a failed reveal never leaves the deal waiting.
+ */
+export function applyDealMessage(
+    session: DealSession,
+    playerId: string,
+    message: DealMessage
+): { session: DealSession; completed: KeyRequest | null; failed: FailedReveal | null } {
+    if (!session.playerIds.includes(playerId)) {
+        throw new ActionError('PLAYER_NOT_FOUND', 'You are not dealt into this hand');
+    }
+
+    const payload = signedDealPayload(session.gameId, session.handNumber, message.step, message.data);
+    if (typeof message.signature !== 'string' || !verifySignature(session.publicKeys[playerId], payload, message.signature)) {
+        throw new ActionError('INVALID_SIGNATURE', 'Deal message signature is invalid');
+    }
+
+    const next = structuredClone(session);
+    let completed: KeyRequest | null = null;
+    let failed: FailedReveal | null = null;
+
+    if (message.step === 'shuffle' || message.step === 'lock') {
+        if (next.stage !== message.step) {
+            throw new ActionError('INVALID_DEAL_MESSAGE', `Expected a ${next.stage} message`);
+        }
+        if (next.playerIds[next.turn] !== playerId) {
+            throw new ActionError('NOT_YOUR_TURN', 'Not your turn to deal');
+        }
+
+        next.deck = validateDeck(message.data, next.deck.length);
+        next.turn += 1;
+
+        if (next.turn === next.playerIds.length) {
+            next.turn = 0;
+            if (next.stage === 'shuffle') {
+                next.stage = 'lock';
+            } else {
+                // The deck is locked: everyone publishes keys for the other players' hole cards
+                next.stage = 'keys';
+                next.request = {
+                    reason: 'holes',
+                    required: Object.fromEntries(next.playerIds.map(id => [
+                        id,
+                        next.playerIds.filter(other => other !== id).flatMap(other => next.holePositions[other]),
+                    ])),
+                };
+            }
+        }
+    } else if (message.step === 'keys') {
+        const required = next.request?.required[playerId];
+        if (next.stage !== 'keys' || !required) {
+            throw new ActionError('INVALID_DEAL_MESSAGE', 'No keys are needed from you right now');
+        }
+
+        const data = message.data;
+        if (Array.isArray(data) || typeof data !== 'object' || data === null) {
+            throw new ActionError('INVALID_DEAL_MESSAGE', 'Keys must map deck positions to keys');
+        }
+
+        const positions = Object.keys(data).map(Number);
+        if (positions.length !== required.length || !required.every(position => positions.includes(position))) {
+            throw new ActionError('INVALID_DEAL_MESSAGE', `Expected keys for positions ${required.join(', ')}`);
+        }
+
+        for (const position of required) {
+            const key = parseExponent(data[position]);
+            if (key === null) {
+                throw new ActionError('INVALID_DEAL_MESSAGE', `Invalid key for position ${position}`);
+            }
+            next.keys[position] = { ...next.keys[position], [playerId]: toHex(key) };
+        }
+
+        const request = next.request!;
+        // Everyone else keyed a hand at the deal, so a hand that does not open with its owner's keys is held against them
+        if (request.reason === 'showdown' && !opensToCards(next, required)) {
+            failed = { reason: request.reason, playerIds: [playerId] };
+            next.request = null;
+        } else if (requestIsComplete(next)) {
+            // Every player keys the board, so a board card that does not open cannot be pinned on anyone
+            if (request.reason === 'community' && !opensToCards(next, required)) {
+                failed = { reason: request.reason, playerIds: [] };
+            } else {
+                completed = request;
+            }
+            next.request = null;
+        }
+    } else {
+        throw new ActionError('INVALID_DEAL_MESSAGE', `Unknown deal step: ${message.step}`);
+    }
+
+    const prevHash = next.transcript[next.transcript.length - 1]?.hash || GENESIS_HASH;
+    const entry = { seq: next.transcript.length, playerId, step: message.step, data: message.data, signature: message.signature };
+    next.transcript.push({ ...entry, prevHash, hash: sha256(prevHash + JSON.stringify(entry)) });
+
+    return { session: next, completed, failed };
+}
+
+/**
+ * Ask every player dealt in for their keys to the next board cards
+ */
+export function requestCommunityCards(session: DealSession, count: number): DealSession {
+    const next = structuredClone(session);
+    const positions = next.communityPositions.slice(next.communityOpened, next.communityOpened + count);
+    next.request = {
+        reason: 'community',
+        required: Object.fromEntries(next.playerIds.map(id => [id, positions])),
+    };
+    return next;
+}
+
+/**
+ * Ask the players at showdown for the keys to their own hole cards
+ */
+export function requestShowdown(session: DealSession, playerIds: string[]): DealSession {
+    const next = structuredClone(session);
+    next.request = {
+        reason: 'showdown',
+        required: Object.fromEntries(playerIds.map(id => [id, next.holePositions[id]])),
+    };
+    return next;
+}
+
+/**
+ * The card at a deck position, or null until every key is in or if the keys do not open it
+ */
+function decryptPosition(session: DealSession, position: number): Card | null {
+    const keys = session.playerIds.map(id => parseExponent(session.keys[position]?.[id]));
+    const ciphertext = parseElement(session.deck[position]);
+    return ciphertext !== null && keys.every(key => key !== null)
+        ? decryptCard(ciphertext, keys as bigint[])
+        : null;
+}
+
+function opensToCards(session: DealSession, positions: number[]): boolean {
+    return positions.every(position => decryptPosition(session, position) !== null);
+}
+
+function openCard(session: DealSession, position: number): Card {
+    const card = decryptPosition(session, position);
+    if (!card) {
+        throw new ActionError('INVALID_REVEAL', `Deck position ${position} did not open to a valid card, see the deal transcript`);
+    }
+    return card;
+}
+
+/**
+ * Open the board cards whose keys were just collected
+ */
+export function openCommunityCards(session: DealSession, count: number): { session: DealSession; cards: Card[] } {
+    const next = structuredClone(session);
+    const positions = next.communityPositions.slice(next.communityOpened, next.communityOpened + count);
+    const cards = positions.map(position => openCard(next, position));
+    next.communityOpened += cards.length;
+    return { session: next, cards };
+}
+
+/**
+ * Open the hole cards of the players who showed down
+ */
+export function openHands(session: DealSession, playerIds: string[]): Record<string, Card[]> {
+    return Object.fromEntries(playerIds.map(id => [id, session.holePositions[id].map(position => openCard(session, position))]));
+}
+
+/**
+ * The public part of a deal session sent to every player at the table
+ */
+export function projectDealSession(session: DealSession) {
+    const last = session.transcript[session.transcript.length - 1];
+    return {
+        gameId: session.gameId,
+        handNumber: session.handNumber,
+        playerIds: session.playerIds,
+        stage: session.stage,
+        turnPlayerId: session.stage === 'keys' ? null : session.playerIds[session.turn],
+        deck: session.deck,
+        holePositions: session.holePositions,
+        communityPositions: session.communityPositions,
+        request: session.request,
+        keys: session.keys,
+        transcriptLength: session.transcript.length,
+        transcriptHash: last?.hash || GENESIS_HASH,
+    };
+}
@@ -0,0 +1,296 @@
+/**
+ * Shared poker game types
+ * Used by the rules engine, the WebSocket server and scripts
+ */
+
+export interface Card {
+    suit: 'hearts' | 'diamonds' | 'clubs' | 'spades';
+    rank: 'A' | 'K' | 'Q' | 'J' | '10' | '9' | '8' | '7' | '6' | '5' | '4' | '3' | '2';
+}
+
+export interface Player {
+    id: string;
+    name: string;
+    walletAddress: string | null;
+    chips: number;
+    handStartChips?: number; // Stack when the current hand was dealt
+    bet: number;            // Chips committed this hand
+    roundBet: number;       // Chips committed this betting round
+    hand: Card[];
+    folded: boolean;
+    isActive: boolean;      // Dealt into the current hand, false while sitting out with no chips
+    hasDealerChip: boolean;
+    actedThisRound?: boolean;
+    raiseClosed?: boolean;  // Facing a short all-in after acting: may call or fold but not re-raise
+    timeBankMs: number;     // Extra thinking time left once the shot clock runs out
+    handType?: string;
+}
+
+export interface Pot {
+    amount: number;
+    eligiblePlayerIds: string[];
+}
+
+export interface PotWinner {
+    id: string;
+    name: string;
+    amount: number;
+    chips: number;
+    handType: string;
+    description: string;
+}
+
+export interface PotResult {
+    name: string;
+    amount: number;
+    winners: Array<{ id: string; name: string; amount: number }>;
+}
+
+export interface WinnerInfo {
+    id: string;
+    name: string;
+    chips: number;
+    potWon: number;
+    reason: string;
+    hand: Card[];
+    handType: string;
+    description?: string;
+    bestCards?: Card[];
+    winners: PotWinner[];
+    pots: PotResult[];
+    allHands?: Array<{
+        id: string;
+        name: string;
+        hand: Card[];
+        score: number;
+        handType: string;
+        description: string;
+        bestCards: Card[];
+    }>;
+}
+
+export interface FoldWinnerInfo {
+    id: string;
+    name: string;
+    chips: number;
+    potWon: number;
+    foldedPlayerId: string;
+    foldedPlayerName: string;
+}
+
+/**
+ * auto: a busted player is topped back up to the starting stack before the next hand
+ * none: a busted player sits out with no chips
+ */
+export type RebuyPolicy = 'auto' | 'none';
+
+export interface TableConfig {
+    variant: GameVariant;
+    bettingStructure: BettingStructure;
+    smallBlind: number;
+    bigBlind: number;
+    ante: number;                // Posted by every player before the blinds, 0 for none
+    seats: number;               // Most players the table can hold
+    startingStack: number;       // Chips each player sits down with
+    buyInUsdc: number;           // USDC each player puts into a hand's App Session, 0 for play money
+    chipsPerUsdc: number;        // Exchange rate for paying chips won out in USDC
+    rebuyPolicy: RebuyPolicy;
+    dealMode: DealMode;
+    actionSeconds: number;       // Shot clock for each turn, 0 for no clock
+    timeBankSeconds: number;     // Time bank each player starts with, and the most it can hold
+    timeBankTopUpSeconds: number; // Added to every time bank at the start of each hand
+    spectatorDelaySeconds: number; // How far behind the table spectators watch, 0 for live
+}
+
+/**
+ * holdem: Texas Hold'em, two hole cards and any five of seven
+ * plo: Pot-Limit Omaha, four hole cards and exactly two of them with three from the board
+ * shortdeck: 6+ Hold'em, 36 cards with no twos through fives and a flush beats a full house
+ */
+export type GameVariant = 'holdem' | 'plo' | 'shortdeck';
+
+/**
+ * no-limit: bet or raise anything up to your stack
+ * pot-limit: bet or raise at most the size of the pot
+ * fixed-limit: bet and raise in small bets preflop and on the flop, big bets on the
+ * turn and river, at most four bets a street
+ */
+export type BettingStructure = 'no-limit' | 'pot-limit' | 'fixed-limit';
+
+/**
+ * server: the server shuffles and deals from a committed seed
+ * trustless: players shuffle and deal among themselves with mental poker
+ */
+export type DealMode = 'server' | 'trustless';
+
+export interface ShuffledDeck {
+    cards: Card[];               // Dealt from the end of the array with pop()
+    seed: string;
+    commitment: string;
+}
+
+export interface DeckFairness {
+    handNumber: number;
+    commitment: string;          // SHA-256 of the seed, published when the hand is dealt
+    seed: string;                // Kept secret until the hand is over
+    dealtPlayerIds: string[];    // Seats dealt in, in the order their hole cards were dealt
+    holeCardCount: number;       // Cards each of them was dealt in a row
+    deckSize: number;            // 52, or 36 for short-deck
+}
+
+export type GamePhase = 'idle' | 'dealing' | 'betting1' | 'flop' | 'betting2' | 'turn' | 'betting3' | 'river' | 'betting4' | 'reveal' | 'showdown';
+
+/**
+ * Cards a trustless hand is waiting for the players to open
+ * While waiting the game sits in 'dealing', 'flop', 'turn', 'river' or 'reveal'
+ */
+export type PendingReveal =
+    | { kind: 'holes' }
+    | { kind: 'community'; count: number; nextPhase: GamePhase }
+    | { kind: 'hands'; playerIds: string[] };
+
+/**
+ * The running shot clock for the player to act, as epoch milliseconds
+ */
+export interface TurnClock {
+    playerId: string;
+    handNumber: number;
+    startedAt: number;
+    actionEndsAt: number;        // Shot clock runs out, the time bank starts
+    expiresAt: number;           // Time bank runs out, the player is checked or folded
+}
+
+/**
+ * Sit-and-go tournaments: everyone starts with the same stack, the blinds rise on a
+ * schedule and busted players are knocked out instead of rebuying
+ */
+export interface BlindLevel {
+    smallBlind: number;
+    bigBlind: number;
+    ante: number;
+}
+
+export type BlindLevelClock = 'hands' | 'minutes';
+
+export interface TournamentConfig {
+    startingStack: number;
+    levels: BlindLevel[];        // Played in order, the last level lasts until the end
+    levelBy: BlindLevelClock;
+    levelLength: number;         // Hands or minutes per level
+    buyIn: number;               // USDC each player pays into the prize pool, 0 for play money
+    payouts: number[] | null;    // Percent of the prize pool for 1st, 2nd, ..., null to pay by field size
+}
+
+export type TournamentStatus = 'registering' | 'running' | 'finished';
+
+export interface TournamentFinish {
+    playerId: string;
+    name: string;
+    walletAddress: string | null;
+    position: number;            // 1 for the winner
+    prize: number;               // USDC
+}
+
+export interface Tournament {
+    config: TournamentConfig;
+    status: TournamentStatus;
+    level: number;               // Index into config.levels
+    levelStartedAt: number;      // When the current level began, ms
+    levelStartedHand: number;    // First hand dealt at the current level
+    entrants: number;
+    prizes: number[];            // USDC for 1st, 2nd, ..., fixed when the tournament starts
+    finishes: TournamentFinish[]; // Knockouts as they happen, the winner last
+    tournamentId: string | null; // Set on the tables of a multi-table tournament, null for a sit-and-go
+}
+
+export interface TournamentEntrant {
+    playerId: string;
+    name: string;
+    walletAddress: string | null;
+}
+
+/**
+ * A tournament played over several tables, run by the director above them
+ */
+export interface MultiTableTournament {
+    tournamentId: string;
+    hostId: string;              // First to register, starts the tournament
+    yellowSessionId: string | null; // App Session holding the USDC buy-ins
+    tableConfig: TableConfig;    // Every table plays these settings at the current level's blinds
+    tournament: Tournament;      // One blind clock, prize pool and set of finishes, copied onto every table
+    registrants: TournamentEntrant[];
+    tableIds: string[];          // Tables still in play
+}
+
+export interface Game {
+    gameId: string;
+    gameType: string;
+    yellowSessionId: string | null;
+    players: Player[];
+    community: Card[];
+    pot: number;
+    pots: Pot[];
+    highBet: number;
+    lastRaise: number;           // Size of the last full bet or raise this round, the minimum raise increment
+    phase: GamePhase;
+    activePlayerIndex: number;
+    buttonIndex: number;
+    handNumber: number;          // Hands started at this table, 0 before the first deal
+    minBet: number;
+    config: TableConfig;
+    deck: Card[] | null;
+    fairness?: DeckFairness | null;
+    pendingReveal?: PendingReveal | null;
+    turnClock?: TurnClock | null;
+    winner?: WinnerInfo | null;
+    foldWinner?: FoldWinnerInfo | null;
+    tournament?: Tournament | null; // Set for a sit-and-go, absent for a cash game
+}
+
+/**
+ * A completed hand as recorded for history, export and replay
+ */
+export type Street = 'preflop' | 'flop' | 'turn' | 'river';
+
+export interface HandHistoryPlayer {
+    id: string;
+    name: string;
+    seat: number;                // Index in game.players
+    walletAddress: string | null;
+    startingChips: number;
+    holeCards: Card[];           // As known to the server, empty in a trustless deal until shown
+    shownDown: boolean;          // Hole cards were shown at showdown and are public
+    handDescription: string | null;  // Best five-card hand when shown down
+}
+
+export type HandHistoryActionType = 'ante' | 'smallBlind' | 'bigBlind' | 'fold' | 'check' | 'call' | 'bet' | 'raise';
+
+export interface HandHistoryAction {
+    street: Street;
+    playerId: string;
+    type: HandHistoryActionType;
+    amount: number;              // Chips put in by this action
+    roundBet: number;            // The player's total for the street afterwards
+    isAllIn: boolean;
+}
+
+export interface HandHistoryAward {
+    playerId: string;
+    amount: number;
+    potName: string;
+}
+
+export interface HandHistory {
+    handId: string;              // `${gameId}-${handNumber}`
+    gameId: string;
+    handNumber: number;
+    startedAt: number;
+    endedAt: number;
+    config: TableConfig;
+    buttonIndex: number;
+    players: HandHistoryPlayer[];
+    actions: HandHistoryAction[];
+    board: Card[];
+    awards: HandHistoryAward[];
+    fairness: DeckFairness | null;
+}
@@ -0,0 +1,24 @@
+/**
+ * Game variants
+ * What changes between the poker games a table can be created to play
+ */
+
+import type { BettingStructure, Card, GameVariant } from './types';
+import { evaluateHand, evaluateOmahaHand, evaluateShortDeckHand, HandRank } from './hand-evaluator';
+import { RANKS, SHORT_DECK_RANKS } from './cards';
+
+export interface VariantRules {
+    name: string;                        // As written in hand histories
+    holeCards: number;
+    bettingStructure: BettingStructure;  // What the variant is played as unless the table picks another
+    deckRanks: Card['rank'][];           // Ranks the deck is built from
+    evaluate: (hand: Card[], community: Card[]) => HandRank;
+}
+
+export const VARIANTS: Record<GameVariant, VariantRules> = {
+    holdem: { name: "Hold'em", holeCards: 2, bettingStructure: 'no-limit', deckRanks: RANKS, evaluate: evaluateHand },
+    plo: { name: 'Omaha', holeCards: 4, bettingStructure: 'pot-limit', deckRanks: RANKS, evaluate: evaluateOmahaHand },
+    shortdeck: { name: "6+ Hold'em", holeCards: 2, bettingStructure: 'no-limit', deckRanks: SHORT_DECK_RANKS, evaluate: evaluateShortDeckHand },
+};
+
+export const GAME_VARIANTS = Object.keys(VARIANTS) as GameVariant[];
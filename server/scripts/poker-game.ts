@@ -32,6 +32,8 @@ import {
     RPCAppSessionAllocation,
     RPCProtocolVersion,
 } from '@erc7824/nitrolite';
+import { evaluateHand as evaluateBestHand } from '../game/hand-evaluator';
+import type { Card as EngineCard } from '../game/types';
 
 config();
 
@@ -92,46 +94,18 @@ function handToString(hand: Card[]): string {
     return hand.map(cardToString).join(' ');
 }
 
-// Simple hand evaluator (returns score 0-9)
-function evaluateHand(hand: Card[], community: Card[]): { score: number; name: string } {
-    const allCards = [...hand, ...community];
-    const ranks = allCards.map(c => RANKS.indexOf(c.rank));
-    const suits = allCards.map(c => c.suit);
-
-    // Count ranks
-    const rankCounts: Record<number, number> = {};
-    for (const r of ranks) {
-        rankCounts[r] = (rankCounts[r] || 0) + 1;
-    }
-
-    const counts = Object.values(rankCounts).sort((a, b) => b - a);
-
-    // Check for flush
-    const suitCounts: Record<string, number> = {};
-    for (const s of suits) {
-        suitCounts[s] = (suitCounts[s] || 0) + 1;
-    }
-    const hasFlush = Object.values(suitCounts).some(c => c >= 5);
-
-    // Check for straight
-    const uniqueRanks = [...new Set(ranks)].sort((a, b) => a - b);
-    let hasStraight = false;
-    for (let i = 0; i <= uniqueRanks.length - 5; i++) {
-        if (uniqueRanks[i + 4] - uniqueRanks[i] === 4) {
-            hasStraight = true;
-            break;
-        }
-    }
+const SUIT_NAMES: Record<Card['suit'], EngineCard['suit']> = {
+    '♠': 'spades',
+    '♥': 'hearts',
+    '♦': 'diamonds',
+    '♣': 'clubs',
+};
 
-    if (hasFlush && hasStraight) return { score: 8, name: 'Straight Flush' };
-    if (counts[0] === 4) return { score: 7, name: 'Four of a Kind' };
-    if (counts[0] === 3 && counts[1] === 2) return { score: 6, name: 'Full House' };
-    if (hasFlush) return { score: 5, name: 'Flush' };
-    if (hasStraight) return { score: 4, name: 'Straight' };
-    if (counts[0] === 3) return { score: 3, name: 'Three of a Kind' };
-    if (counts[0] === 2 && counts[1] === 2) return { score: 2, name: 'Two Pair' };
-    if (counts[0] === 2) return { score: 1, name: 'Pair' };
-    return { score: 0, name: 'High Card' };
+// Score a hand with the server's 5-of-7 evaluator
+function evaluateHand(hand: Card[], community: Card[]): { score: number; name: string } {
+    const toEngineCard = (card: Card): EngineCard => ({ suit: SUIT_NAMES[card.suit], rank: card.rank });
+    const rank = evaluateBestHand(hand.map(toEngineCard), community.map(toEngineCard));
+    return { score: rank.score, name: rank.description };
 }
 
 async function createPlayerSession(name: string, privateKey: Hex): Promise<PlayerSession> {
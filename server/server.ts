@@ -4,6 +4,7 @@
  */
 
 import express from 'express';
+import { randomBytes, type JsonWebKey } from 'crypto';
 import { createServer } from 'http';
 import { WebSocket, WebSocketServer } from 'ws';
 import { v4 as uuidv4 } from 'uuid';
@@ -11,67 +12,56 @@ import {
     initializeGame,
     startPokerSession,
     settlePokerSession,
+    restoreGame,
     cleanupGame
 } from './game/poker-yellow-service';
+import type { BettingStructure, DealMode, Game, GameVariant, HandHistory, MultiTableTournament, Player, RebuyPolicy, ShuffledDeck, TournamentConfig } from './game/types';
+import { minimumBet, resolveTableConfig } from './game/table-config';
+import { createTournament, currentLevel, prepareTournamentHand, resolveTournamentConfig, tournamentTableRules } from './game/tournament';
+import {
+    createMultiTableTournament,
+    isHandInProgress,
+    knockOutAtTable,
+    planSeatMoves,
+    prepareTableHand,
+    registerEntrant,
+    seatMovedPlayer,
+    startMultiTableTournament,
+    tablesNeeded,
+    unseatPlayer,
+    SeatMove,
+} from './game/tournament-director';
+import { VARIANTS } from './game/variants';
+import { createShuffledDeck } from './game/fairness';
+import { applyAction, GameAction, GameEvent, PlayerAction } from './game/poker-engine';
+import { projectGameState, GameView } from './game/state-view';
+import { syncTurnClock, timeoutAction } from './game/shot-clock';
+import { projectHandHistory, recordHandEvents } from './game/hand-history';
+import { toPokerStarsFile } from './game/hand-export';
+import { addHandToStats, isOpenTable, summarizeTable, EMPTY_POT_STATS, PotStats } from './game/lobby';
+import { assertEmote, cleanChatText, createChatMessage, takeChatSlot } from './game/table-chat';
+import { FileGameStore } from './storage/file-game-store';
+import type { GameStore, PlayerSession } from './storage/game-store';
+import { ActionError } from './game/errors';
+import {
+    applyDealMessage,
+    createDealSession,
+    openCommunityCards,
+    openHands,
+    parseDealPublicKey,
+    projectDealSession,
+    requestCommunityCards,
+    requestIsComplete,
+    requestShowdown,
+    withholdingPlayers,
+    DealMessage,
+    DealSession,
+    FailedReveal,
+    KeyRequestReason,
+} from './game/trustless-deal';
 
 // ====== TYPE DEFINITIONS ======
 
-interface Card {
-    suit: 'hearts' | 'diamonds' | 'clubs' | 'spades';
-    rank: 'A' | 'K' | 'Q' | 'J' | '10' | '9' | '8' | '7' | '6' | '5' | '4' | '3' | '2';
-}
-
-interface Player {
-    id: string;
-    name: string;
-    walletAddress: string | null;
-    chips: number;
-    bet: number;
-    roundBet: number;
-    hand: Card[];
-    folded: boolean;
-    isActive: boolean;
-    hasDealerChip: boolean;
-    actedThisRound?: boolean;
-    handType?: string;
-}
-
-interface WinnerInfo {
-    id: string;
-    name: string;
-    chips: number;
-    potWon: number;
-    reason: string;
-    hand: Card[];
-    handType: string;
-    allHands?: Array<{ id: string; name: string; hand: Card[]; score: number; handType: string }>;
-}
-
-interface FoldWinnerInfo {
-    id: string;
-    name: string;
-    chips: number;
-    potWon: number;
-    foldedPlayerId: string;
-    foldedPlayerName: string;
-}
-
-interface Game {
-    gameId: string;
-    gameType: string;
-    yellowSessionId: string | null;
-    players: Player[];
-    community: Card[];
-    pot: number;
-    highBet: number;
-    phase: 'idle' | 'betting1' | 'flop' | 'betting2' | 'turn' | 'betting3' | 'river' | 'betting4' | 'showdown';
-    activePlayerIndex: number;
-    minBet: number;
-    deck: Card[] | null;
-    winner?: WinnerInfo | null;
-    foldWinner?: FoldWinnerInfo | null;
-}
-
 interface PlayerConnection {
     ws: WebSocket;
     gameId: string;
@@ -87,6 +77,32 @@ interface WSMessage {
         walletAddress?: string;
         action?: string;
         amount?: number;
+        variant?: GameVariant;
+        bettingStructure?: BettingStructure;
+        smallBlind?: number;
+        bigBlind?: number;
+        ante?: number;
+        seats?: number;
+        startingStack?: number;
+        buyInUsdc?: number;
+        chipsPerUsdc?: number;
+        rebuyPolicy?: RebuyPolicy;
+        dealMode?: DealMode;
+        actionSeconds?: number;
+        timeBankSeconds?: number;
+        timeBankTopUpSeconds?: number;
+        spectatorDelaySeconds?: number;
+        publicKey?: unknown;
+        step?: DealMessage['step'];
+        data?: DealMessage['data'];
+        signature?: string;
+        handNumber?: number;
+        sessionToken?: string;
+        format?: string;
+        text?: string;
+        emote?: string;
+        tournament?: Partial<TournamentConfig>;
+        tournamentId?: string;
     };
 }
 
@@ -96,409 +112,1077 @@ const app = express();
 const server = createServer(app);
 const wss = new WebSocketServer({ server });
 
+// The web app, the only browser origin allowed to send a session token over HTTP
+const APP_ORIGIN = process.env.APP_ORIGIN || 'http://localhost:3000';
+
 // Store games: gameId → Game
 const games = new Map<string, Game>();
 
+// Durable copy of games, sessions and hand history that survives a restart
+const store: GameStore = new FileGameStore(process.env.DATA_DIR || 'data');
+
 // Store player connections: playerId → PlayerConnection
 const playerConnections = new Map<string, PlayerConnection>();
 
-console.log('🚀 Starting WebSocket Poker Server (TypeScript)...\n');
+// Store spectators: gameId → sockets watching without a seat
+const spectators = new Map<string, Set<WebSocket>>();
 
-// ====== CARD UTILITIES ======
+// Store the latest state released to spectators: gameId → view, after any broadcast delay
+const spectatorViews = new Map<string, GameView>();
 
-function createDeck(): Card[] {
-    const suits: Card['suit'][] = ['hearts', 'diamonds', 'clubs', 'spades'];
-    const ranks: Card['rank'][] = ['A', 'K', 'Q', 'J', '10', '9', '8', '7', '6', '5', '4', '3', '2'];
-    const deck: Card[] = [];
+// Store resumable sessions: session token → seat it belongs to
+const playerSessions = new Map<string, PlayerSession>();
 
-    for (const suit of suits) {
-        for (const rank of ranks) {
-            deck.push({ suit, rank });
-        }
-    }
+// Store trustless deal keys: playerId → ECDSA public key
+const dealKeys = new Map<string, JsonWebKey>();
 
-    return deck.sort(() => Math.random() - 0.5); // Shuffle
-}
+// Store trustless deals: gameId → recent hands, latest last
+const dealSessions = new Map<string, DealSession[]>();
+const MAX_DEAL_SESSIONS = 20;
 
-function dealCards(game: Game): void {
-    if (!game.deck) {
-        game.deck = createDeck();
-    }
+// Store deal deadlines: gameId → timer that forfeits the players a trustless deal is waiting on
+const dealTimers = new Map<string, NodeJS.Timeout>();
+const DEAL_TIMEOUT_MS = 30000;
 
-    game.players.forEach((player) => {
-        player.hand = [game.deck!.pop()!, game.deck!.pop()!];
-    });
+// Store hands being played: gameId → record so far
+const handsInProgress = new Map<string, HandHistory>();
 
-    console.log(`   💳 Cards dealt to ${game.players.length} players`);
-}
+// Store shot clock timers: gameId → timer for the player to act
+const turnTimers = new Map<string, NodeJS.Timeout>();
 
-function dealCommunityCards(game: Game, count: number): void {
-    if (!game.deck) {
-        game.deck = createDeck();
-    }
+// Store pot sizes for the lobby: gameId → hands played and chips won
+const potStats = new Map<string, PotStats>();
 
-    for (let i = 0; i < count; i++) {
-        game.community.push(game.deck!.pop()!);
-    }
+// Store recent chat: playerId → send times still inside the rate limit window
+const chatTimestamps = new Map<string, number[]>();
 
-    console.log(`   💳 ${count} community card(s) dealt. Total: ${game.community.length}`);
-}
+// Store multi-table tournaments: tournamentId → director state above their tables
+const tournaments = new Map<string, MultiTableTournament>();
 
-function getCardValue(rank: Card['rank']): number {
-    const values: Record<Card['rank'], number> = {
-        'A': 14, 'K': 13, 'Q': 12, 'J': 11, '10': 10,
-        '9': 9, '8': 8, '7': 7, '6': 6, '5': 5, '4': 4, '3': 3, '2': 2
-    };
-    return values[rank];
-}
+// Store the pause after a tournament table's hand: gameId → timer that runs the director and deals on
+const tableBreaks = new Map<string, NodeJS.Timeout>();
+const TABLE_BREAK_MS = 5000;
 
-function evaluateHand(hand: Card[], community: Card[]): { score: number; handType: string } {
-    const allCards = [...hand, ...community];
+console.log('🚀 Starting WebSocket Poker Server (TypeScript)...\n');
 
-    // Count occurrences of each rank
-    const rankCounts: Record<string, number> = {};
-    allCards.forEach(card => {
-        rankCounts[card.rank] = (rankCounts[card.rank] || 0) + 1;
-    });
+// ====== SESSIONS ======
 
-    // Count occurrences of each suit
-    const suitCounts: Record<string, number> = {};
-    allCards.forEach(card => {
-        suitCounts[card.suit] = (suitCounts[card.suit] || 0) + 1;
+/**
+ * Issue the token a client keeps to get back into its seat after a dropped socket or a reload
+ */
+function issueSessionToken(playerId: string, gameId: string): string {
+    const sessionToken = randomBytes(32).toString('hex');
+    playerSessions.set(sessionToken, { playerId, gameId });
+    store.savePlayerSession(sessionToken, { playerId, gameId }).catch((error) => {
+        console.error('❌ Failed to store session:', error.message);
     });
+    return sessionToken;
+}
 
-    const counts = Object.values(rankCounts).sort((a, b) => b - a);
-    const values = allCards.map(card => getCardValue(card.rank)).sort((a, b) => b - a);
+/**
+ * The player this socket has seated at a table, or registered for a tournament by its id
+ * Throws when the socket has no seat there or names a player other than its own
+ */
+function connectedPlayerId(ws: WebSocket, gameId: string, playerId: string | undefined): string {
+    const seated = [...playerConnections.entries()]
+        .find(([, conn]) => conn.ws === ws && conn.gameId === gameId)?.[0];
+    if (!seated || (playerId !== undefined && playerId !== seated)) {
+        throw new ActionError('PLAYER_NOT_FOUND', 'You can only act for your own seat');
+    }
+    return seated;
+}
 
-    // Check for flush
-    const isFlush = Object.values(suitCounts).some(count => count >= 5);
+// ====== STORAGE ======
 
-    // Check for straight
-    const uniqueValues = [...new Set(values)];
-    let isStraight = false;
-    for (let i = 0; i <= uniqueValues.length - 5; i++) {
-        if (uniqueValues[i] - uniqueValues[i + 4] === 4) {
-            isStraight = true;
-            break;
-        }
-    }
-    // Check for A-2-3-4-5 (wheel)
-    if (!isStraight && uniqueValues.includes(14) && uniqueValues.includes(2) &&
-        uniqueValues.includes(3) && uniqueValues.includes(4) && uniqueValues.includes(5)) {
-        isStraight = true;
-    }
-
-    let handType = 'High Card';
-    let score = values[0];
-
-    if (counts[0] === 4) {
-        handType = 'Four of a Kind';
-        score = 800000 + values[0];
-    } else if (counts[0] === 3 && counts[1] === 2) {
-        handType = 'Full House';
-        score = 700000 + values[0];
-    } else if (isFlush) {
-        handType = 'Flush';
-        score = 600000 + values[0];
-    } else if (isStraight) {
-        handType = 'Straight';
-        score = 500000 + values[0];
-    } else if (counts[0] === 3) {
-        handType = 'Three of a Kind';
-        score = 400000 + values[0];
-    } else if (counts[0] === 2 && counts[1] === 2) {
-        handType = 'Two Pair';
-        score = 300000 + values[0];
-    } else if (counts[0] === 2) {
-        handType = 'Pair';
-        score = 200000 + values[0];
-    } else {
-        handType = 'High Card';
-        score = 100000 + values[0];
-    }
+/**
+ * Write the latest state of a game to storage in the background
+ */
+function persistGame(gameId: string): void {
+    const game = games.get(gameId);
+    if (!game) return;
 
-    return { score, handType };
+    const stored = {
+        game,
+        dealKeys: Object.fromEntries(game.players.flatMap(p => dealKeys.has(p.id) ? [[p.id, dealKeys.get(p.id)!]] : [])),
+        dealSessions: dealSessions.get(gameId) || [],
+        handInProgress: handsInProgress.get(gameId) || null,
+    };
+    store.saveGame(stored).catch((error) => {
+        console.error(`❌ Failed to store game ${gameId}:`, error.message);
+    });
 }
 
-function determineWinner(players: Player[], community: Card[]): Player {
-    const activePlayers = players.filter(p => !p.folded);
+/**
+ * A stored table worth bringing back: someone is still seated and its tournament is not over
+ */
+function isLiveTable(game: Game): boolean {
+    return game.players.length > 0 && game.tournament?.status !== 'finished';
+}
 
-    if (activePlayers.length === 1) {
-        return activePlayers[0];
+/**
+ * Load the games and sessions that were live when the server stopped
+ * Restarts each table's shot clock and re-associates its Yellow App Session.
+ * Finished and empty tables are deleted, their hand history kept for replays. A table that cannot be loaded is skipped
+ * and left in storage. Returns the ids of the skipped tables.
+ */
+async function restoreGames(): Promise<Set<string>> {
+    const skipped = new Set<string>();
+    for (const [sessionToken, session] of await store.loadPlayerSessions()) {
+        playerSessions.set(sessionToken, session);
     }
 
-    let winner = activePlayers[0];
-    let bestEval = evaluateHand(winner.hand, community);
+    const stored = await store.loadGames();
+    for (const record of stored) {
+        try {
+            const { game: saved, dealSessions: deals, handInProgress } = record;
+            if (!isLiveTable(saved)) {
+                await store.deleteGame(saved.gameId);
+                console.log(`   🗑️ Deleted finished or empty game ${saved.gameId}`);
+                continue;
+            }
 
-    for (let i = 1; i < activePlayers.length; i++) {
-        const handEval = evaluateHand(activePlayers[i].hand, community);
-        if (handEval.score > bestEval.score) {
-            bestEval = handEval;
-            winner = activePlayers[i];
+            // Tables saved before a config option existed get its default, and the
+            // rate follows from the stack and buy-in for tables saved with a mismatched one
+            saved.config = resolveTableConfig({ ...saved.config, chipsPerUsdc: saved.config.buyInUsdc > 0 ? undefined : saved.config.chipsPerUsdc });
+            const stats = (await store.loadHands(saved.gameId)).reduce(addHandToStats, EMPTY_POT_STATS);
+
+            // Everyone was disconnected while the server was down, give the player to act a fresh clock
+            const game = syncTurnClock({ ...saved, turnClock: null }, saved, [], Date.now());
+            games.set(game.gameId, game);
+            // Games saved before deal keys were stored have none, their players register again
+            Object.entries(record.dealKeys || {}).forEach(([playerId, key]) => dealKeys.set(playerId, key));
+            if (deals.length > 0) dealSessions.set(game.gameId, deals);
+            if (handInProgress) handsInProgress.set(game.gameId, handInProgress);
+            potStats.set(game.gameId, stats);
+            scheduleTurnTimeout(game);
+            scheduleDealTimeout(game);
+
+            // Reconnect in the background, tables are playable before Yellow Network answers
+            restoreGame(
+                game.gameId,
+                game.yellowSessionId,
+                game.players.filter(p => p.walletAddress && p.isActive).map(p => ({ walletAddress: p.walletAddress!, buyIn: sessionBuyIn(game, p) }))
+            ).catch((error) => {
+                console.log(`   ⚠️ Yellow Network not restored for ${game.gameId} (optional):`, error);
+            });
+        } catch (error) {
+            console.warn(`   ⚠️ Skipping stored game ${record.game?.gameId}:`, error instanceof Error ? error.message : error);
+            if (record.game?.gameId) skipped.add(record.game.gameId);
         }
     }
 
-    winner.handType = bestEval.handType;
-    return winner;
+    console.log(`💾 Restored ${games.size} game(s) and ${playerSessions.size} session(s)\n`);
+    return skipped;
 }
 
-function allBetsMatched(game: Game): boolean {
-    const activePlayers = game.players.filter(p => !p.folded && p.isActive);
-
-    if (activePlayers.length <= 1) return true;
+/**
+ * Forget the sessions of tables and tournaments that are gone and rewrite the
+ * session log with the rest, so it does not grow forever
+ * Skipped tables keep their sessions for when they can be loaded again.
+ */
+async function compactSessions(skipped: Set<string>): Promise<void> {
+    for (const [sessionToken, session] of playerSessions) {
+        if (!games.has(session.gameId) && !tournaments.has(session.gameId) && !skipped.has(session.gameId)) {
+            playerSessions.delete(sessionToken);
+        }
+    }
+    await store.replacePlayerSessions(playerSessions);
+    console.log(`💾 Kept ${playerSessions.size} session(s)\n`);
+}
 
-    const playersWithChips = activePlayers.filter(p => p.chips > 0);
-    const allAllIn = playersWithChips.length === 0;
+function persistTournament(tournamentId: string): void {
+    const mtt = tournaments.get(tournamentId);
+    if (!mtt) return;
 
-    if (allAllIn) return true;
+    store.saveTournament(mtt).catch((error) => {
+        console.error(`❌ Failed to store tournament ${tournamentId}:`, error.message);
+    });
+}
 
-    const playersWithChipsActed = playersWithChips.every(p => p.actedThisRound);
-    const betsMatch = playersWithChips.every(p => p.roundBet === playersWithChips[0].roundBet);
+/**
+ * Load multi-table tournaments after their tables and deal on wherever a table was left between hands
+ */
+async function restoreTournaments(): Promise<void> {
+    const stored = await store.loadTournaments();
+    for (const mtt of stored) {
+        tournaments.set(mtt.tournamentId, mtt);
+        if (mtt.tournament.status !== 'running') continue;
+
+        if (mtt.yellowSessionId) {
+            restoreGame(
+                mtt.tournamentId,
+                mtt.yellowSessionId,
+                mtt.registrants.filter(e => e.walletAddress).map(e => ({ walletAddress: e.walletAddress!, buyIn: String(mtt.tournament.config.buyIn) }))
+            ).catch((error) => {
+                console.log(`   ⚠️ Yellow Network not restored for tournament ${mtt.tournamentId} (optional):`, error);
+            });
+        }
+        await runDirector(mtt.tournamentId);
+    }
 
-    return playersWithChipsActed && betsMatch;
+    console.log(`💾 Restored ${stored.length} tournament(s)\n`);
 }
 
-function advanceActivePlayer(game: Game): void {
-    const activePlayers = game.players.filter(p => !p.folded);
-    if (activePlayers.length <= 1) return;
+// ====== YELLOW NETWORK SETTLEMENT ======
+
+/**
+ * What a player puts into a table's App Session: the tournament buy-in, or on a cash table
+ * the stack they were dealt into the hand with
+ */
+function sessionBuyIn(game: Game, player: Player): string {
+    return String(game.tournament ? game.tournament.config.buyIn : (player.handStartChips ?? player.chips) / game.config.chipsPerUsdc);
+}
 
-    const currentPlayerIndex = game.activePlayerIndex;
-    const currentPlayerName = game.players[currentPlayerIndex]?.name || 'Unknown';
-    let nextIndex = (currentPlayerIndex + 1) % game.players.length;
+async function openAppSession(game: Game): Promise<void> {
+    const playersWithWallets = game.players.filter(p => p.walletAddress && p.isActive);
+    // Allow 1 player for testing (YellowSession handles broker padding)
+    if (playersWithWallets.length < 1) return;
 
-    let skipCount = 0;
-    while ((game.players[nextIndex].folded || game.players[nextIndex].chips === 0) && skipCount < game.players.length) {
-        nextIndex = (nextIndex + 1) % game.players.length;
-        skipCount++;
+    try {
+        const sessionId = await startPokerSession(
+            game.gameId,
+            playersWithWallets.map(p => ({
+                walletAddress: p.walletAddress!,
+                buyIn: sessionBuyIn(game, p),
+            }))
+        );
+        const latest = games.get(game.gameId);
+        if (latest) latest.yellowSessionId = sessionId;
+        persistGame(game.gameId);
+        console.log(`   💰 Yellow App Session started: ${sessionId}`);
+    } catch (error) {
+        console.log(`   ⚠️ Yellow session not started (optional):`, error);
     }
+}
 
-    if (skipCount >= game.players.length) {
-        console.log(`   ⏭️  All players all-in or folded, not advancing`);
+/**
+ * Open a Yellow App Session for the hand that was just dealt
+ * Each hand is settled when it ends, so every new hand needs its own session
+ */
+async function startHandSession(game: Game): Promise<void> {
+    // Tournament hands are played for chips inside the session the buy-ins opened
+    if (game.tournament || game.config.buyInUsdc === 0) return;
+    // A player without a wallet has no funds in the session, so chips they win or lose could not be settled
+    if (game.players.some(p => p.isActive && !p.walletAddress)) {
+        console.log(`   ⚠️ Yellow session not started: every player dealt in needs a wallet`);
         return;
     }
-
-    const nextPlayerName = game.players[nextIndex]?.name || 'Unknown';
-    game.activePlayerIndex = nextIndex;
-    console.log(`   👉 Active player: ${currentPlayerName} (${currentPlayerIndex}) → ${nextPlayerName} (${nextIndex})`);
+    await openAppSession(game);
 }
 
-// ====== YELLOW NETWORK SETTLEMENT ======
+/**
+ * Open one App Session holding every buy-in when a USDC tournament starts
+ * It stays open until the tournament is over and is settled with the payouts
+ */
+async function startTournamentSession(game: Game): Promise<void> {
+    if (!game.tournament || game.tournament.config.buyIn === 0) return;
+    await openAppSession(game);
+}
 
-async function handleShowdownSettlement(game: Game): Promise<void> {
-    if (!game.yellowSessionId) return;
+/**
+ * Close a cash hand's App Session, whether it ended at showdown, on a fold or was called off
+ * Each player dealt in gets back the stack they finished with, so the allocations add up to the stacks it was funded with
+ */
+async function handleHandSettlement(game: Game): Promise<void> {
+    if (!game.yellowSessionId || game.tournament) return;
 
     try {
-        const winner = game.winner;
-        if (!winner) return;
-
-        // Calculate final allocations based on who won the pot
         const finalAllocations = game.players
-            .filter(p => p.walletAddress)
+            .filter(p => p.walletAddress && p.isActive)
             .map(p => ({
                 walletAddress: p.walletAddress!,
-                // Winner gets their original chips plus pot won, losers get 0 (simplified)
-                amount: p.id === winner.id ? String(winner.potWon / 1000000) : '0'
+                amount: String(p.chips / game.config.chipsPerUsdc),
             }));
 
         await settlePokerSession(game.gameId, finalAllocations);
+
+        // Only open sessions need re-associating after a restart
+        const latest = games.get(game.gameId);
+        if (latest) latest.yellowSessionId = null;
+        persistGame(game.gameId);
         console.log(`   💸 Yellow Network settlement complete`);
     } catch (error) {
         console.error(`   ❌ Yellow settlement failed:`, error);
     }
 }
 
-// ====== PHASE ADVANCEMENT ======
+/**
+ * Pay out a finished USDC tournament from its App Session
+ */
+async function handleTournamentSettlement(game: Game): Promise<void> {
+    if (!game.yellowSessionId || !game.tournament) return;
+
+    try {
+        const finalAllocations = game.tournament.finishes
+            .filter(f => f.walletAddress)
+            .map(f => ({ walletAddress: f.walletAddress!, amount: String(f.prize) }));
 
-async function advancePhase(game: Game): Promise<void> {
-    const phases: Game['phase'][] = ['betting1', 'flop', 'betting2', 'turn', 'betting3', 'river', 'betting4', 'showdown'];
-    const currentIndex = phases.indexOf(game.phase);
+        await settlePokerSession(game.gameId, finalAllocations);
+
+        const latest = games.get(game.gameId);
+        if (latest) latest.yellowSessionId = null;
+        persistGame(game.gameId);
+        console.log(`   💸 Tournament payouts settled through Yellow Network`);
+    } catch (error) {
+        console.error(`   ❌ Tournament settlement failed:`, error);
+    }
+}
 
-    console.log(`   🔄 Advancing from phase: ${game.phase} (index ${currentIndex})`);
+/**
+ * Open one App Session with every buy-in when a USDC multi-table tournament starts
+ * It belongs to the tournament rather than a table, players move tables but stay in it
+ */
+async function startMultiTableSession(mtt: MultiTableTournament): Promise<void> {
+    if (mtt.tournament.config.buyIn === 0) return;
 
-    if (currentIndex === -1) return;
+    try {
+        await initializeGame(mtt.tournamentId);
+        const sessionId = await startPokerSession(
+            mtt.tournamentId,
+            mtt.registrants
+                .filter(e => e.walletAddress)
+                .map(e => ({ walletAddress: e.walletAddress!, buyIn: String(mtt.tournament.config.buyIn) }))
+        );
+        const latest = tournaments.get(mtt.tournamentId);
+        if (latest) tournaments.set(mtt.tournamentId, { ...latest, yellowSessionId: sessionId });
+        persistTournament(mtt.tournamentId);
+        console.log(`   💰 Yellow App Session started: ${sessionId}`);
+    } catch (error) {
+        console.log(`   ⚠️ Yellow session not started (optional):`, error);
+    }
+}
 
-    const activePlayers = game.players.filter(p => !p.folded && p.isActive);
-    const allAllIn = activePlayers.every(p => p.chips === 0);
+async function handleMultiTableSettlement(mtt: MultiTableTournament): Promise<void> {
+    if (!mtt.yellowSessionId) return;
 
-    let nextIndex = currentIndex + 1;
+    try {
+        const finalAllocations = mtt.tournament.finishes
+            .filter(f => f.walletAddress)
+            .map(f => ({ walletAddress: f.walletAddress!, amount: String(f.prize) }));
 
-    if (allAllIn) {
-        if (game.community.length < 5) {
-            dealCommunityCards(game, 5 - game.community.length);
+        await settlePokerSession(mtt.tournamentId, finalAllocations);
+
+        const latest = tournaments.get(mtt.tournamentId);
+        if (latest) tournaments.set(mtt.tournamentId, { ...latest, yellowSessionId: null });
+        persistTournament(mtt.tournamentId);
+        console.log(`   💸 Tournament payouts settled through Yellow Network`);
+    } catch (error) {
+        console.error(`   ❌ Tournament settlement failed:`, error);
+    }
+}
+
+// ====== ENGINE ======
+
+function logGameEvent(game: Game, event: GameEvent): void {
+    const nameOf = (playerId: string) => game.players.find(p => p.id === playerId)?.name || 'Unknown';
+
+    switch (event.type) {
+        case 'handStarted':
+            console.log(`   🎮 Hand #${event.handNumber} started with ${event.playerCount} players (button: seat ${event.buttonIndex})`);
+            console.log(event.deckCommitment ? `   🔐 Deck commitment: ${event.deckCommitment}` : `   🔐 Trustless deal, players shuffle the deck`);
+            break;
+        case 'cardsRequested':
+            console.log(`   🔑 Waiting for players to open ${event.reveal.kind}`);
+            break;
+        case 'forcedBetPosted':
+            console.log(`   🪙 ${nameOf(event.playerId)} posts ${event.forcedBet} of ${event.amount}`);
+            break;
+        case 'holeCardsDealt':
+            console.log(`   💳 Cards dealt to ${event.playerCount} players`);
+            break;
+        case 'communityCardsDealt':
+            console.log(`   💳 ${event.count} community card(s) dealt. Total: ${event.total}`);
+            break;
+        case 'playerFolded':
+            console.log(`   🚫 ${nameOf(event.playerId)} folded`);
+            break;
+        case 'playerChecked':
+            console.log(`   ✓ ${nameOf(event.playerId)} checked`);
+            break;
+        case 'playerBet':
+            console.log(`   💰 ${nameOf(event.playerId)} ${event.kind}s ${event.amount}${event.isAllIn ? ' and is all-in' : ''} (round total: ${event.roundBet}, pot: ${event.pot})`);
+            if (event.kind !== 'call') console.log(`   🔼 ${event.kind === 'bet' ? 'Bet' : 'Raise'} made! Other players must respond`);
+            break;
+        case 'turnChanged':
+            console.log(`   👉 Active player: ${game.players[event.fromIndex]?.name} (${event.fromIndex}) → ${game.players[event.toIndex]?.name} (${event.toIndex})`);
+            break;
+        case 'phaseChanged':
+            console.log(`   ➡️  Advanced to phase: ${event.phase}`);
+            break;
+        case 'potAwarded':
+            console.log(`   🏆 Winner: ${nameOf(event.playerId)} wins ${event.amount} chips from ${event.potName}! (${event.reason})`);
+            break;
+        case 'handComplete':
+            console.log(`   🏁 Hand complete${event.showdown ? ' at showdown' : ''}`);
+            break;
+        case 'playerRebought':
+            console.log(`   💰 ${nameOf(event.playerId)} rebuys for ${event.chips} chips`);
+            break;
+        case 'playerEliminated':
+            console.log(`   ☠️ ${nameOf(event.playerId)} is knocked out in place ${event.position}${event.prize > 0 ? ` and wins ${event.prize} USDC` : ''}`);
+            break;
+        case 'tournamentFinished':
+            console.log(`   🏆 ${nameOf(event.winnerId)} wins the tournament${event.prize > 0 ? ` and ${event.prize} USDC` : ''}`);
+            break;
+    }
+}
+
+/**
+ * Map an action message from a client onto a rules engine action
+ */
+function toPlayerAction(action: string | undefined, playerId: string, amount?: number): PlayerAction {
+    switch (action) {
+        case 'fold':
+        case 'check':
+        case 'call':
+        case 'allIn':
+            return { type: action, playerId };
+        case 'bet':
+        case 'raise':
+            return { type: action, playerId, amount: amount ?? 0 };
+        default:
+            throw new ActionError('UNKNOWN_ACTION', `Unknown action: ${action}`);
+    }
+}
+
+/**
+ * Run an action through the rules engine and store the resulting state
+ * Settles the hand's Yellow App Session once it is over
+ */
+async function dispatchAction(gameId: string, action: GameAction): Promise<Game> {
+    const game = games.get(gameId);
+    if (!game) throw new Error('Game not found');
+
+    const { game: applied, events } = applyAction(game, action);
+    const next = syncTurnClock(game, applied, events, Date.now());
+    games.set(gameId, next);
+    events.forEach(event => logGameEvent(next, event));
+    if (next.config.dealMode === 'trustless') syncDealSession(next, events);
+    scheduleTurnTimeout(next);
+    scheduleDealTimeout(next);
+    recordHand(next, events);
+    persistGame(gameId);
+
+    if (events.some(e => e.type === 'handComplete')) {
+        await handleHandSettlement(next);
+    }
+    if (events.some(e => e.type === 'tournamentFinished')) {
+        await handleTournamentSettlement(next);
+    }
+    if (next.tournament?.tournamentId && events.some(e => e.type === 'handComplete')) {
+        return handleTournamentTableHand(next);
+    }
+
+    return next;
+}
+
+/**
+ * Deal the next hand, moving a tournament's blinds up first when a level is over
+ * The blind change only sticks if the deal goes through
+ */
+async function dealNextHand(gameId: string, type: 'startHand' | 'nextRound'): Promise<Game> {
+    const game = games.get(gameId);
+    if (!game) throw new Error('Game not found');
+    if (!game.tournament) return dispatchAction(gameId, { type, deck: deckForNextHand(game) });
+    if (game.tournament.tournamentId) {
+        throw new ActionError('INVALID_TOURNAMENT', 'The tournament director deals every hand');
+    }
+
+    const prepared = prepareTournamentHand(game, Date.now());
+    games.set(gameId, prepared);
+    try {
+        const dealt = await dispatchAction(gameId, { type, deck: deckForNextHand(prepared) });
+        if (game.tournament.status === 'registering') {
+            console.log(`   🏆 Tournament started with ${prepared.tournament!.entrants} players`);
+            await startTournamentSession(dealt);
+        } else if (prepared.tournament!.level !== game.tournament.level) {
+            const { smallBlind, bigBlind, ante } = currentLevel(prepared.tournament!);
+            console.log(`   📈 Blinds up to ${smallBlind}/${bigBlind}${ante > 0 ? ` ante ${ante}` : ''} (level ${prepared.tournament!.level + 1})`);
         }
-        game.phase = 'showdown';
+        return dealt;
+    } catch (error) {
+        games.set(gameId, game);
+        throw error;
+    }
+}
+
+function spectatorCount(gameId: string): number {
+    return spectators.get(gameId)?.size || 0;
+}
+
+/**
+ * The gameState payload for a seated player
+ */
+function gameStatePayload(game: Game, playerId: string) {
+    return { ...projectGameState(game, playerId), spectatorCount: spectatorCount(game.gameId) };
+}
+
+/**
+ * Send every seated player their own view of the game, and spectators the
+ * public view once the table's broadcast delay has passed
+ * Hole cards are redacted per recipient, see projectGameState
+ */
+function broadcastGameState(gameId: string): void {
+    const game = games.get(gameId);
+    if (!game) return;
 
-        const activePlayersForWinner = game.players.filter(p => !p.folded);
-        let winner: Player;
-        let winReason = '';
+    console.log(`   Sending to ${game.players.length} players:`);
 
-        if (activePlayersForWinner.length === 1) {
-            winner = activePlayersForWinner[0];
-            winReason = 'Everyone else folded';
+    game.players.forEach((player) => {
+        const conn = playerConnections.get(player.id);
+        if (conn && conn.ws.readyState === WebSocket.OPEN) {
+            conn.ws.send(JSON.stringify({
+                type: 'gameState',
+                payload: gameStatePayload(game, player.id),
+            }));
+            console.log(`     ✓ ${player.name}`);
         } else {
-            winner = determineWinner(game.players, game.community);
-            winReason = 'Best hand';
+            console.log(`     ✗ ${player.name} (not connected)`);
         }
+    });
 
-        if (winner) {
-            winner.chips += game.pot;
-            console.log(`   🏆 Winner: ${winner.name} wins ${game.pot} chips! (${winReason})`);
-
-            const playerHandEvals = game.players
-                .filter(p => !p.folded)
-                .map(p => ({
-                    id: p.id,
-                    name: p.name,
-                    hand: p.hand,
-                    ...evaluateHand(p.hand, game.community)
-                }));
+    // Spectators get their count from spectatorCount messages, a delayed view would carry a stale one
+    const view = projectGameState(game, null);
+    const delayMs = game.config.spectatorDelaySeconds * 1000;
+    if (delayMs === 0) {
+        releaseSpectatorView(gameId, view);
+    } else {
+        setTimeout(() => releaseSpectatorView(gameId, view), delayMs);
+    }
+}
 
-            game.winner = {
-                id: winner.id,
-                name: winner.name,
-                chips: winner.chips,
-                potWon: game.pot,
-                reason: winReason,
-                hand: winner.hand,
-                handType: winner.handType || 'High Card',
-                allHands: playerHandEvals
-            };
-
-            // Settle Yellow Network
-            await handleShowdownSettlement(game);
+function releaseSpectatorView(gameId: string, view: GameView): void {
+    spectatorViews.set(gameId, view);
+    spectators.get(gameId)?.forEach((ws) => {
+        if (ws.readyState === WebSocket.OPEN) {
+            ws.send(JSON.stringify({ type: 'gameState', payload: view }));
         }
-        return;
+    });
+}
+
+/**
+ * Send the same message to every seated player and spectator, with no delay
+ */
+function broadcastToTable(gameId: string, message: { type: string; payload: unknown }): void {
+    const game = games.get(gameId);
+    if (!game) return;
+
+    const json = JSON.stringify(message);
+    const sockets = [
+        ...game.players.map(p => playerConnections.get(p.id)?.ws),
+        ...(spectators.get(gameId) || []),
+    ];
+    sockets.forEach((ws) => {
+        if (ws && ws.readyState === WebSocket.OPEN) ws.send(json);
+    });
+}
+
+/**
+ * Tell everyone at the table how many people are watching
+ */
+function broadcastSpectatorCount(gameId: string): void {
+    broadcastToTable(gameId, { type: 'spectatorCount', payload: { gameId, count: spectatorCount(gameId) } });
+}
+
+// ====== HAND HISTORY ======
+
+function recordHand(game: Game, events: GameEvent[]): void {
+    const { inProgress, completed } = recordHandEvents(handsInProgress.get(game.gameId) || null, game, events, Date.now());
+
+    if (inProgress) {
+        handsInProgress.set(game.gameId, inProgress);
+    } else {
+        handsInProgress.delete(game.gameId);
     }
 
-    if (nextIndex >= phases.length) {
-        game.phase = 'showdown';
-        return;
+    if (completed) {
+        potStats.set(game.gameId, addHandToStats(potStats.get(game.gameId) || EMPTY_POT_STATS, completed));
+        store.saveHand(completed).catch((error) => {
+            console.error(`❌ Failed to store hand ${completed.handId}:`, error.message);
+        });
     }
+}
 
-    game.phase = phases[nextIndex];
-    console.log(`   ➡️  Advanced to phase: ${game.phase} (index ${nextIndex})`);
+/**
+ * Recorded hands for one reader, as JSON records or PokerStars text
+ * viewerId sees their own hole cards, everyone sees the hands shown down.
+ * A finished table is gone from memory but its hands stay in storage for replays.
+ * Returns null for a table that is neither live nor recorded.
+ */
+async function exportHands(gameId: string, viewerId: string | null, handNumber?: number, format = 'json') {
+    if (format !== 'json' && format !== 'pokerstars') {
+        throw new Error('format must be json or pokerstars');
+    }
 
-    if (game.phase.startsWith('betting')) {
-        console.log(`   🔄 Resetting betting state for ${game.phase}`);
-        game.players.forEach(p => {
-            p.roundBet = 0;
-            p.actedThisRound = false;
-        });
-        game.highBet = 0;
-        const bettingPhases = ['betting1', 'betting2', 'betting3', 'betting4'];
-        const bettingIndex = bettingPhases.indexOf(game.phase);
-        game.activePlayerIndex = Math.floor(bettingIndex / 2) % 2;
-        console.log(`   👤 Active player set to: ${game.players[game.activePlayerIndex]?.name} (index ${game.activePlayerIndex})`);
-    }
-
-    if (game.phase === 'flop') {
-        dealCommunityCards(game, 3);
-        game.phase = 'betting2';
-        game.players.forEach(p => {
-            p.roundBet = 0;
-            p.actedThisRound = false;
-        });
-        game.highBet = 0;
-        game.activePlayerIndex = 0;
-        console.log(`   ➡️  Auto-advanced to betting2 after flop`);
-    } else if (game.phase === 'turn') {
-        dealCommunityCards(game, 1);
-        game.phase = 'betting3';
-        game.players.forEach(p => {
-            p.roundBet = 0;
-            p.actedThisRound = false;
+    const recorded = await store.loadHands(gameId);
+    if (recorded.length === 0 && !games.has(gameId)) return null;
+
+    const hands = recorded
+        .filter(h => handNumber === undefined || h.handNumber === handNumber)
+        .map(h => projectHandHistory(h, viewerId));
+
+    return format === 'json' ? hands : toPokerStarsFile(hands, viewerId);
+}
+
+// ====== LOBBY ======
+
+/**
+ * Tables with a free seat, busiest first
+ */
+function listOpenTables() {
+    return [...games.values()]
+        .filter(isOpenTable)
+        .map(game => summarizeTable(game, potStats.get(game.gameId) || EMPTY_POT_STATS))
+        .sort((a, b) => b.seatsFilled - a.seatsFilled);
+}
+
+// ====== MULTI-TABLE TOURNAMENTS ======
+
+/**
+ * What registrants see of a multi-table tournament, wallets stay on the server
+ */
+function tournamentStatePayload(mtt: MultiTableTournament) {
+    return {
+        tournamentId: mtt.tournamentId,
+        hostId: mtt.hostId,
+        registrants: mtt.registrants.map(({ playerId, name }) => ({ playerId, name })),
+        tables: mtt.tableIds.length,
+        tournament: mtt.tournament,
+    };
+}
+
+/**
+ * Send the tournament to every registrant, wherever they are seated
+ */
+function broadcastTournamentState(mtt: MultiTableTournament): void {
+    const json = JSON.stringify({ type: 'tournamentState', payload: tournamentStatePayload(mtt) });
+    mtt.registrants.forEach(({ playerId }) => {
+        const conn = playerConnections.get(playerId);
+        if (conn && conn.ws.readyState === WebSocket.OPEN) conn.ws.send(json);
+    });
+}
+
+/**
+ * Point a player's socket and session tokens at a new table, or back at the
+ * tournament once they are out, so nobody has to reconnect when they move
+ */
+function rebindPlayer(playerId: string, gameId: string, tournamentId: string): void {
+    for (const [sessionToken, session] of playerSessions.entries()) {
+        if (session.playerId !== playerId) continue;
+        playerSessions.set(sessionToken, { playerId, gameId });
+        store.savePlayerSession(sessionToken, { playerId, gameId }).catch((error) => {
+            console.error('❌ Failed to store session:', error.message);
         });
-        game.highBet = 0;
-        game.activePlayerIndex = 0;
-        console.log(`   ➡️  Auto-advanced to betting3 after turn`);
-    } else if (game.phase === 'river') {
-        dealCommunityCards(game, 1);
-        game.phase = 'betting4';
-        game.players.forEach(p => {
-            p.roundBet = 0;
-            p.actedThisRound = false;
+    }
+
+    const conn = playerConnections.get(playerId);
+    if (!conn) return;
+    playerConnections.set(playerId, { ws: conn.ws, gameId });
+    if (gameId !== tournamentId && conn.ws.readyState === WebSocket.OPEN) {
+        conn.ws.send(JSON.stringify({ type: 'tableChanged', payload: { gameId, playerId, tournamentId } }));
+    }
+}
+
+/**
+ * Copy the director's blind clock and finishes onto every table still in play
+ */
+function syncTournamentTables(mtt: MultiTableTournament): void {
+    mtt.tableIds.forEach((gameId) => {
+        const game = games.get(gameId);
+        if (!game) return;
+        games.set(gameId, { ...game, tournament: mtt.tournament });
+        persistGame(gameId);
+    });
+}
+
+/**
+ * Knock out anyone a tournament table's hand busted, then give the table a pause
+ * to show the hand down before the director moves players and deals it on
+ */
+async function handleTournamentTableHand(game: Game): Promise<Game> {
+    const mtt = tournaments.get(game.tournament!.tournamentId!);
+    if (!mtt) return game;
+
+    const events: GameEvent[] = [];
+    const next = knockOutAtTable(mtt, game, events);
+    events.forEach(event => logGameEvent(game, event));
+
+    if (next !== mtt) {
+        tournaments.set(next.tournamentId, next);
+        persistTournament(next.tournamentId);
+        syncTournamentTables(next);
+        next.tableIds.filter(id => id !== game.gameId).forEach(broadcastGameState);
+        broadcastTournamentState(next);
+    }
+
+    if (next.tournament.status === 'finished') {
+        await handleMultiTableSettlement(next);
+    } else {
+        scheduleTableBreak(game.gameId, next.tournamentId);
+    }
+    return games.get(game.gameId)!;
+}
+
+function scheduleTableBreak(gameId: string, tournamentId: string): void {
+    clearTimeout(tableBreaks.get(gameId));
+    tableBreaks.set(gameId, setTimeout(() => {
+        tableBreaks.delete(gameId);
+        runDirector(tournamentId).catch((error) => {
+            console.error('❌ Tournament director failed:', error.message);
         });
-        game.highBet = 0;
-        game.activePlayerIndex = 0;
-        console.log(`   ➡️  Auto-advanced to betting4 after river`);
-    } else if (game.phase === 'showdown') {
-        const activePlayersForWinner = game.players.filter(p => !p.folded);
-        let winner: Player;
-        let winReason = '';
-
-        if (activePlayersForWinner.length === 1) {
-            winner = activePlayersForWinner[0];
-            winReason = 'Everyone else folded';
-        } else {
-            winner = determineWinner(game.players, game.community);
-            winReason = 'Best hand';
+    }, TABLE_BREAK_MS));
+}
+
+/**
+ * Knocked-out players give up their seat and stay on to watch the table they busted at
+ */
+function seeOffBustedPlayers(gameId: string, tournamentId: string): void {
+    let game = games.get(gameId);
+    if (!game || isHandInProgress(game)) return;
+
+    for (const busted of game.players.filter(p => p.chips === 0)) {
+        game = unseatPlayer(game, busted.id).game;
+        rebindPlayer(busted.id, tournamentId, tournamentId);
+
+        const ws = playerConnections.get(busted.id)?.ws;
+        if (ws && ws.readyState === WebSocket.OPEN) {
+            spectators.set(gameId, (spectators.get(gameId) || new Set<WebSocket>()).add(ws));
+            ws.send(JSON.stringify({ type: 'watching', payload: { gameId, delaySeconds: game.config.spectatorDelaySeconds } }));
         }
+    }
+    games.set(gameId, game);
+    persistGame(gameId);
+}
 
-        winner.chips += game.pot;
+/**
+ * Move a player to another table of their tournament with their stack
+ */
+function movePlayer(move: SeatMove, tournamentId: string): void {
+    const { game: from, player } = unseatPlayer(games.get(move.fromGameId)!, move.playerId);
+    games.set(move.fromGameId, from);
+    games.set(move.toGameId, seatMovedPlayer(games.get(move.toGameId)!, player));
+    persistGame(move.fromGameId);
+    persistGame(move.toGameId);
+    rebindPlayer(player.id, move.toGameId, tournamentId);
+    console.log(`   🪑 ${player.name} moves to table ${move.toGameId}`);
+}
 
-        const playerHandEvals = game.players
-            .filter(p => !p.folded)
-            .map(p => ({
-                id: p.id,
-                name: p.name,
-                hand: p.hand,
-                ...evaluateHand(p.hand, game.community)
-            }));
+/**
+ * Balance and break tables after a hand, then deal on wherever a table is ready
+ * Only tables between hands and past their pause give up players
+ */
+async function runDirector(tournamentId: string): Promise<void> {
+    const mtt = tournaments.get(tournamentId);
+    if (!mtt || mtt.tournament.status !== 'running') return;
 
-        game.winner = {
-            id: winner.id,
-            name: winner.name,
-            chips: winner.chips,
-            potWon: game.pot,
-            reason: winReason,
-            hand: winner.hand,
-            handType: winner.handType || 'High Card',
-            allHands: playerHandEvals
-        };
+    const locked = new Set(tableBreaks.keys());
+    mtt.tableIds.filter(id => !locked.has(id)).forEach(id => seeOffBustedPlayers(id, tournamentId));
 
-        console.log(`   🏆 Winner: ${winner.name} wins ${game.pot} chips! (${winReason})`);
+    const tables = mtt.tableIds.map(id => games.get(id)).filter((game): game is Game => !!game);
+    const { moves, brokenTableIds } = planSeatMoves(tables, mtt.tableConfig.seats, locked);
+    moves.forEach(move => movePlayer(move, tournamentId));
 
-        // Settle Yellow Network
-        await handleShowdownSettlement(game);
+    const next = { ...mtt, tableIds: mtt.tableIds.filter(id => !brokenTableIds.includes(id)) };
+    brokenTableIds.forEach(id => console.log(`   🪑 Table ${id} broken`));
+    if (next.tableIds.length === 1 && mtt.tableIds.length > 1) {
+        console.log(`   🏁 Final table: ${next.tableIds[0]}`);
     }
+    tournaments.set(tournamentId, next);
+    persistTournament(tournamentId);
+
+    if (moves.length > 0) broadcastTournamentState(next);
+    mtt.tableIds.forEach(broadcastGameState);
+    await dealWaitingTables(tournamentId);
 }
 
-function broadcastGameState(gameId: string): void {
+/**
+ * Deal a tournament table its next hand at the current level of the shared clock
+ */
+async function dealTournamentTable(gameId: string): Promise<void> {
+    const game = games.get(gameId)!;
+    const mtt = tournaments.get(game.tournament!.tournamentId!)!;
+
+    const prepared = prepareTableHand(mtt, game, Date.now());
+    games.set(gameId, prepared.game);
+    try {
+        await dispatchAction(gameId, { type: 'nextRound', deck: deckForNextHand(prepared.game) });
+    } catch (error) {
+        games.set(gameId, game);
+        throw error;
+    }
+
+    tournaments.set(mtt.tournamentId, prepared.mtt);
+    if (prepared.mtt.tournament.level !== mtt.tournament.level) {
+        const { smallBlind, bigBlind, ante } = currentLevel(prepared.mtt.tournament);
+        console.log(`   📈 Blinds up to ${smallBlind}/${bigBlind}${ante > 0 ? ` ante ${ante}` : ''} on every table (level ${prepared.mtt.tournament.level + 1})`);
+        persistTournament(mtt.tournamentId);
+        broadcastTournamentState(prepared.mtt);
+    }
+}
+
+/**
+ * Deal on at every table between hands with two players or more, a table
+ * left short waits for the director to move players in or break it
+ */
+async function dealWaitingTables(tournamentId: string): Promise<void> {
+    for (const gameId of tournaments.get(tournamentId)?.tableIds || []) {
+        const game = games.get(gameId);
+        if (!game || tableBreaks.has(gameId) || isHandInProgress(game)) continue;
+        if (game.players.filter(p => p.chips > 0).length < 2) continue;
+
+        try {
+            await dealTournamentTable(gameId);
+            broadcastGameState(gameId);
+            broadcastDealState(gameId);
+        } catch (error) {
+            console.error(`❌ Could not deal table ${gameId}:`, error instanceof Error ? error.message : error);
+        }
+    }
+}
+
+// ====== SHOT CLOCK ======
+
+/**
+ * Arm the timer for the player to act, replacing any earlier one for the table
+ */
+function scheduleTurnTimeout(game: Game): void {
+    clearTimeout(turnTimers.get(game.gameId));
+    turnTimers.delete(game.gameId);
+
+    const clock = game.turnClock;
+    if (!clock) return;
+
+    turnTimers.set(game.gameId, setTimeout(() => {
+        handleTurnTimeout(game.gameId, clock.startedAt).catch((error) => {
+            console.error('❌ Shot clock timeout failed:', error.message);
+        });
+    }, Math.max(0, clock.expiresAt - Date.now())));
+}
+
+async function handleTurnTimeout(gameId: string, startedAt: number): Promise<void> {
+    turnTimers.delete(gameId);
     const game = games.get(gameId);
-    if (!game) return;
+    // The player acted just in time and a newer clock is running
+    if (!game?.turnClock || game.turnClock.startedAt !== startedAt) return;
 
-    const payload = {
-        gameId: game.gameId,
-        yellowSessionId: game.yellowSessionId || null,
-        players: game.players,
-        community: game.community,
-        pot: game.pot,
-        highBet: game.highBet,
-        phase: game.phase,
-        activePlayerIndex: game.activePlayerIndex,
-        minBet: game.minBet,
-        winner: game.winner || null,
-        foldWinner: game.foldWinner || null,
-    };
+    const action = timeoutAction(game);
+    const player = game.players.find(p => p.id === action.playerId);
+    console.log(`\n⏰ ${player?.name || action.playerId} ran out of time and ${action.type === 'check' ? 'checks' : 'folds'}`);
 
-    const message = JSON.stringify({
-        type: 'gameState',
-        payload,
-    });
+    await dispatchAction(gameId, action);
+    broadcastGameState(gameId);
+    broadcastDealState(gameId);
+}
 
-    console.log(`   Sending to ${game.players.length} players:`);
+// ====== TRUSTLESS DEALING ======
 
-    game.players.forEach((player) => {
-        const conn = playerConnections.get(player.id);
+/**
+ * Get a deck for the next hand, or null when the players deal it themselves
+ */
+function deckForNextHand(game: Game): ShuffledDeck | null {
+    if (game.config.dealMode !== 'trustless') return createShuffledDeck(VARIANTS[game.config.variant].deckRanks);
+
+    const missing = game.players.filter(p => !dealKeys.has(p.id));
+    if (missing.length > 0) {
+        throw new ActionError('INVALID_DEAL_MESSAGE', `Waiting for deal keys from ${missing.map(p => p.name).join(', ')}`);
+    }
+    return null;
+}
+
+function currentDealSession(gameId: string): DealSession | undefined {
+    return dealSessions.get(gameId)?.at(-1);
+}
+
+function storeDealSession(session: DealSession): void {
+    const sessions = (dealSessions.get(session.gameId) || []).filter(s => s.handNumber !== session.handNumber);
+    sessions.push(session);
+    dealSessions.set(session.gameId, sessions.slice(-MAX_DEAL_SESSIONS));
+}
+
+/**
+ * Start a new deal or ask the players for keys as the engine waits for cards
+ */
+function syncDealSession(game: Game, events: GameEvent[]): void {
+    for (const event of events) {
+        if (event.type === 'handStarted') {
+            const playerIds = game.players.filter(p => p.isActive).map(p => p.id);
+            const { holeCards, deckRanks } = VARIANTS[game.config.variant];
+            storeDealSession(createDealSession(game.gameId, game.handNumber, playerIds, Object.fromEntries(dealKeys), holeCards, deckRanks));
+        } else if (event.type === 'cardsRequested') {
+            const session = currentDealSession(game.gameId);
+            if (!session) continue;
+            if (event.reveal.kind === 'community') {
+                storeDealSession(requestCommunityCards(session, event.reveal.count));
+            } else if (event.reveal.kind === 'hands') {
+                storeDealSession(requestShowdown(session, event.reveal.playerIds));
+            }
+        }
+    }
+}
+
+/**
+ * Send the public deal state to everyone dealt into the hand
+ */
+function broadcastDealState(gameId: string): void {
+    const session = currentDealSession(gameId);
+    if (!session) return;
+
+    const payload = projectDealSession(session);
+    session.playerIds.forEach((playerId) => {
+        const conn = playerConnections.get(playerId);
         if (conn && conn.ws.readyState === WebSocket.OPEN) {
-            conn.ws.send(message);
-            console.log(`     ✓ ${player.name}`);
-        } else {
-            console.log(`     ✗ ${player.name} (not connected)`);
+            conn.ws.send(JSON.stringify({ type: 'dealState', payload }));
         }
     });
 }
 
+/**
+ * Arm the deadline for the players the deal is waiting on, replacing any earlier one for the table
+ * Every accepted deal message gives the rest a fresh deadline
+ */
+function scheduleDealTimeout(game: Game): void {
+    clearTimeout(dealTimers.get(game.gameId));
+    dealTimers.delete(game.gameId);
+    if (game.config.dealMode !== 'trustless' || !game.pendingReveal) return;
+
+    const session = currentDealSession(game.gameId);
+    if (!session) return;
+
+    const { handNumber } = game;
+    const transcriptLength = session.transcript.length;
+    dealTimers.set(game.gameId, setTimeout(() => {
+        handleDealTimeout(game.gameId, handNumber, transcriptLength).catch((error) => {
+            console.error('❌ Deal timeout failed:', error.message);
+        });
+    }, DEAL_TIMEOUT_MS));
+}
+
+async function handleDealTimeout(gameId: string, handNumber: number, transcriptLength: number): Promise<void> {
+    dealTimers.delete(gameId);
+    const game = games.get(gameId);
+    const session = currentDealSession(gameId);
+    // The deal moved on just in time
+    if (!game?.pendingReveal || !session || session.handNumber !== handNumber || session.transcript.length !== transcriptLength) return;
+
+    const playerIds = withholdingPlayers(session);
+    if (playerIds.length === 0) return;
+    const names = playerIds.map(id => game.players.find(p => p.id === id)?.name || id);
+    console.log(`\n⏰ ${names.join(', ')} withheld deal keys and forfeit the hand`);
+
+    await dispatchAction(gameId, { type: 'revealForfeited', playerIds });
+    await openCompletedRequest(gameId);
+    broadcastGameState(gameId);
+    broadcastDealState(gameId);
+}
+
+/**
+ * Open the cards of a key request the players already answered
+ * The players left at a showdown may have opened their hands before the others forfeit
+ */
+async function openCompletedRequest(gameId: string): Promise<void> {
+    const session = currentDealSession(gameId);
+    const game = games.get(gameId);
+    if (game && session?.request && session.handNumber === game.handNumber && requestIsComplete(session)) {
+        storeDealSession({ ...session, request: null });
+        await openRequestedCards(game, session, session.request.reason);
+    }
+}
+
+/**
+ * Settle a reveal whose cards did not open: fold the players whose own keys failed,
+ * or call the hand off and return the bets when nobody can be singled out
+ */
+async function handleFailedReveal(gameId: string, failed: FailedReveal): Promise<void> {
+    if (failed.playerIds.length > 0) {
+        const game = games.get(gameId);
+        const names = failed.playerIds.map(id => game?.players.find(p => p.id === id)?.name || id);
+        console.log(`\n🔐 ${names.join(', ')} sent deal keys that do not open their cards and forfeit the hand`);
+        await dispatchAction(gameId, { type: 'revealForfeited', playerIds: failed.playerIds });
+        await openCompletedRequest(gameId);
+    } else {
+        console.log(`\n🔐 The ${failed.reason} cards did not open, the hand is called off`);
+        await dispatchAction(gameId, { type: 'revealFailed' });
+    }
+}
+
+/**
+ * Hand the cards a completed key request opened to the rules engine
+ */
+async function openRequestedCards(game: Game, session: DealSession, reason: KeyRequestReason): Promise<void> {
+    try {
+        if (reason === 'holes') {
+            await dispatchAction(game.gameId, { type: 'holesDealt' });
+        } else if (reason === 'community' && game.pendingReveal?.kind === 'community') {
+            const opened = openCommunityCards(session, game.pendingReveal.count);
+            storeDealSession(opened.session);
+            await dispatchAction(game.gameId, { type: 'communityRevealed', cards: opened.cards });
+        } else if (reason === 'showdown' && game.pendingReveal?.kind === 'hands') {
+            const hands = openHands(session, game.pendingReveal.playerIds);
+            await dispatchAction(game.gameId, { type: 'handsRevealed', hands });
+        }
+    } catch (error) {
+        // Cards that open to ones already dealt mean a tampered deck, and the request is already answered
+        if (!(error instanceof ActionError) || error.code !== 'INVALID_REVEAL') throw error;
+        await handleFailedReveal(game.gameId, { reason, playerIds: [] });
+    }
+}
+
+// ====== HTTP ROUTES ======
+
+/**
+ * GET /api/games
+ * Open tables for the lobby
+ */
+app.get('/api/games', (_req, res) => {
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.json(listOpenTables());
+});
+
+const HAND_ROUTES = ['/api/games/:gameId/hands', '/api/games/:gameId/hands/:handNumber'];
+
+/**
+ * Let only the web app read hand exports, and send the session token header with them
+ */
+function allowAppOrigin(res: express.Response): void {
+    res.setHeader('Access-Control-Allow-Origin', APP_ORIGIN);
+    res.setHeader('Access-Control-Allow-Headers', 'X-Session-Token');
+}
+
+app.options(HAND_ROUTES, (_req, res) => {
+    allowAppOrigin(res);
+    res.sendStatus(204);
+});
+
+/**
+ * GET /api/games/:gameId/hands?format=json|pokerstars
+ * A session token in the X-Session-Token header adds the caller's own hole cards to the export.
+ * It is never read from the URL, where it would end up in logs and browser history.
+ */
+app.get(HAND_ROUTES, async (req, res) => {
+    allowAppOrigin(res);
+
+    const { gameId, handNumber } = req.params as { gameId: string; handNumber?: string };
+    const format = typeof req.query.format === 'string' ? req.query.format : 'json';
+    const sessionToken = req.get('X-Session-Token');
+    const session = sessionToken ? playerSessions.get(sessionToken) : undefined;
+    const viewerId = session && session.gameId === gameId ? session.playerId : null;
+
+    try {
+        const hands = await exportHands(gameId, viewerId, handNumber === undefined ? undefined : Number(handNumber), format);
+        if (hands === null) {
+            res.status(404).json({ error: 'Game not found' });
+        } else if (typeof hands === 'string') {
+            res.type('text/plain').attachment(`${gameId}.txt`).send(hands);
+        } else if (handNumber !== undefined && hands.length === 0) {
+            res.status(404).json({ error: 'Hand not found' });
+        } else {
+            res.json(handNumber === undefined ? hands : hands[0]);
+        }
+    } catch (error) {
+        res.status(400).json({ error: error instanceof Error ? error.message : 'Could not export hands' });
+    }
+});
+
 // ====== WEBSOCKET HANDLERS ======
 
 wss.on('connection', (ws) => {
@@ -521,7 +1205,25 @@ wss.on('connection', (ws) => {
             }
 
             if (message.type === 'createGame') {
-                const { playerName, gameType, walletAddress } = message.payload;
+                const {
+                    playerName, gameType, walletAddress,
+                    variant, bettingStructure, smallBlind, bigBlind, ante, seats, dealMode,
+                    startingStack, buyInUsdc, chipsPerUsdc, rebuyPolicy,
+                    actionSeconds, timeBankSeconds, timeBankTopUpSeconds, spectatorDelaySeconds,
+                } = message.payload;
+                // A sit-and-go plays its blind schedule and stack rather than the table's own
+                const tournament = message.payload.tournament
+                    ? createTournament(resolveTournamentConfig(message.payload.tournament))
+                    : null;
+                const config = resolveTableConfig({
+                    variant, bettingStructure, smallBlind, bigBlind, ante, seats, dealMode,
+                    startingStack, buyInUsdc, chipsPerUsdc, rebuyPolicy,
+                    actionSeconds, timeBankSeconds, timeBankTopUpSeconds, spectatorDelaySeconds,
+                    ...(tournament ? tournamentTableRules(tournament) : {}),
+                });
+                if (tournament && tournament.config.buyIn > 0 && !walletAddress) {
+                    throw new Error('Connect a wallet to host a USDC tournament');
+                }
                 const gameId = uuidv4();
                 const playerId = uuidv4();
 
@@ -534,25 +1236,33 @@ wss.on('connection', (ws) => {
                             id: playerId,
                             name: playerName || 'Player 1',
                             walletAddress: walletAddress || null,
-                            chips: 1000,
+                            chips: config.startingStack,
                             bet: 0,
                             roundBet: 0,
                             hand: [],
                             folded: false,
                             isActive: true,
                             hasDealerChip: true,
+                            timeBankMs: config.timeBankSeconds * 1000,
                         },
                     ],
                     community: [],
                     pot: 0,
+                    pots: [],
                     highBet: 0,
+                    lastRaise: minimumBet(config),
                     phase: 'idle',
                     activePlayerIndex: 0,
-                    minBet: 20,
+                    buttonIndex: 0,
+                    handNumber: 0,
+                    minBet: minimumBet(config),
+                    config,
                     deck: null,
+                    tournament,
                 };
 
                 games.set(gameId, newGame);
+                persistGame(gameId);
                 playerConnections.set(playerId, { ws, gameId });
 
                 // Initialize Yellow Network session for this game
@@ -569,9 +1279,86 @@ wss.on('connection', (ws) => {
 
                 ws.send(JSON.stringify({
                     type: 'gameCreated',
-                    payload: { gameId, playerId },
+                    payload: { gameId, playerId, sessionToken: issueSessionToken(playerId, gameId) },
                 }));
             }
+            else if (message.type === 'createTournament' || message.type === 'registerTournament') {
+                const {
+                    tournamentId, playerName, walletAddress,
+                    variant, bettingStructure, seats, dealMode,
+                    actionSeconds, timeBankSeconds, timeBankTopUpSeconds, spectatorDelaySeconds,
+                } = message.payload;
+                const playerId = uuidv4();
+
+                let mtt: MultiTableTournament;
+                if (message.type === 'createTournament') {
+                    // The host registers first, the tables take the blinds from the schedule
+                    mtt = createMultiTableTournament(
+                        uuidv4(),
+                        { playerId, name: playerName || 'Player 1', walletAddress: walletAddress || null },
+                        { variant, bettingStructure, seats, dealMode, actionSeconds, timeBankSeconds, timeBankTopUpSeconds, spectatorDelaySeconds },
+                        message.payload.tournament,
+                    );
+                    if (mtt.tournament.config.buyIn > 0 && !walletAddress) {
+                        throw new Error('Connect a wallet to host a USDC tournament');
+                    }
+                } else {
+                    const registering = tournaments.get(tournamentId!);
+                    if (!registering) {
+                        throw new ActionError('INVALID_TOURNAMENT', 'Tournament not found');
+                    }
+                    if (registering.tournament.config.buyIn > 0 && !walletAddress) {
+                        throw new Error('Connect a wallet to buy into a USDC tournament');
+                    }
+                    mtt = registerEntrant(registering, {
+                        playerId,
+                        name: playerName || `Player ${registering.registrants.length + 1}`,
+                        walletAddress: walletAddress || null,
+                    });
+                }
+
+                tournaments.set(mtt.tournamentId, mtt);
+                persistTournament(mtt.tournamentId);
+                playerConnections.set(playerId, { ws, gameId: mtt.tournamentId });
+
+                console.log(`   ✅ ${playerName} registered for tournament ${mtt.tournamentId} (${mtt.registrants.length} entrants)\n`);
+
+                ws.send(JSON.stringify({
+                    type: 'tournamentRegistered',
+                    payload: { tournamentId: mtt.tournamentId, playerId, sessionToken: issueSessionToken(playerId, mtt.tournamentId) },
+                }));
+                broadcastTournamentState(mtt);
+            }
+            else if (message.type === 'startTournament') {
+                const { tournamentId } = message.payload;
+                const mtt = tournaments.get(tournamentId!);
+
+                if (!mtt) {
+                    throw new ActionError('INVALID_TOURNAMENT', 'Tournament not found');
+                }
+                // Every registrant is sent the host's id, so only the socket's own registration counts
+                const playerId = connectedPlayerId(ws, tournamentId!, message.payload.playerId);
+                if (mtt.hostId !== playerId) {
+                    throw new ActionError('INVALID_TOURNAMENT', 'Only the host can start the tournament');
+                }
+
+                const tableIds = Array.from({ length: tablesNeeded(mtt.registrants.length, mtt.tableConfig.seats) }, () => uuidv4());
+                const started = startMultiTableTournament(mtt, tableIds, Date.now());
+                tournaments.set(tournamentId!, started.mtt);
+                persistTournament(tournamentId!);
+
+                started.tables.forEach((table) => {
+                    games.set(table.gameId, table);
+                    persistGame(table.gameId);
+                    table.players.forEach(p => rebindPlayer(p.id, table.gameId, tournamentId!));
+                });
+                console.log(`   🏆 Tournament started with ${started.mtt.tournament.entrants} players at ${tableIds.length} table(s)`);
+
+                await startMultiTableSession(started.mtt);
+                broadcastTournamentState(tournaments.get(tournamentId!)!);
+                tableIds.forEach(broadcastGameState);
+                await dealWaitingTables(tournamentId!);
+            }
             else if (message.type === 'joinGame') {
                 const { gameId, playerName, walletAddress } = message.payload;
                 const game = games.get(gameId!);
@@ -585,7 +1372,7 @@ wss.on('connection', (ws) => {
                     return;
                 }
 
-                if (game.players.length >= 2) {
+                if (game.players.length >= game.config.seats) {
                     console.log(`   ❌ Game is full: ${gameId}\n`);
                     ws.send(JSON.stringify({
                         type: 'error',
@@ -594,35 +1381,174 @@ wss.on('connection', (ws) => {
                     return;
                 }
 
+                if (game.tournament && game.tournament.status !== 'registering') {
+                    console.log(`   ❌ Tournament already started: ${gameId}\n`);
+                    ws.send(JSON.stringify({
+                        type: 'error',
+                        payload: { message: 'The tournament has already started' },
+                    }));
+                    return;
+                }
+
+                if (game.tournament && game.tournament.config.buyIn > 0 && !walletAddress) {
+                    ws.send(JSON.stringify({
+                        type: 'error',
+                        payload: { message: 'Connect a wallet to buy into a USDC tournament' },
+                    }));
+                    return;
+                }
+
+                // Players joining during a hand sit out until the next deal
+                const handInProgress = game.phase !== 'idle';
                 const playerId = uuidv4();
                 game.players.push({
                     id: playerId,
-                    name: playerName || 'Player 2',
+                    name: playerName || `Player ${game.players.length + 1}`,
                     walletAddress: walletAddress || null,
-                    chips: 1000,
+                    chips: game.config.startingStack,
                     bet: 0,
                     roundBet: 0,
                     hand: [],
-                    folded: false,
-                    isActive: true,
+                    folded: handInProgress,
+                    isActive: !handInProgress,
                     hasDealerChip: false,
                     actedThisRound: false,
+                    timeBankMs: game.config.timeBankSeconds * 1000,
                 });
+                persistGame(gameId!);
 
                 playerConnections.set(playerId, { ws, gameId: gameId! });
 
                 console.log(`   ✅ Player joined: ${playerName} (${playerId})`);
-                console.log(`   ✅ Players in game: ${game.players.length}\n`);
+                console.log(`   ✅ Players in game: ${game.players.length}/${game.config.seats}\n`);
 
                 ws.send(JSON.stringify({
                     type: 'gameCreated',
-                    payload: { gameId, playerId },
+                    payload: { gameId, playerId, sessionToken: issueSessionToken(playerId, gameId!) },
                 }));
 
                 broadcastGameState(gameId!);
             }
+            else if (message.type === 'resume') {
+                const { sessionToken } = message.payload;
+                const session = sessionToken ? playerSessions.get(sessionToken) : undefined;
+                const game = session && games.get(session.gameId);
+
+                // Registered for a tournament that has not seated them, or knocked out of one
+                const mtt = session && tournaments.get(session.gameId);
+                if (session && mtt) {
+                    playerConnections.set(session.playerId, { ws, gameId: session.gameId });
+                    ws.send(JSON.stringify({
+                        type: 'tournamentRegistered',
+                        payload: { tournamentId: mtt.tournamentId, playerId: session.playerId, sessionToken },
+                    }));
+                    ws.send(JSON.stringify({ type: 'tournamentState', payload: tournamentStatePayload(mtt) }));
+                    return;
+                }
+
+                if (!session || !game || !game.players.some(p => p.id === session.playerId)) {
+                    console.log(`   ❌ Unknown or expired session\n`);
+                    ws.send(JSON.stringify({
+                        type: 'resumeFailed',
+                        payload: { message: 'Your seat is no longer available' },
+                    }));
+                    return;
+                }
+
+                // Rebind the seat to this socket and bring the client up to date
+                playerConnections.set(session.playerId, { ws, gameId: session.gameId });
+                console.log(`   🔄 ${game.players.find(p => p.id === session.playerId)?.name} resumed (${session.playerId})\n`);
+
+                ws.send(JSON.stringify({
+                    type: 'resumed',
+                    payload: { gameId: session.gameId, playerId: session.playerId, sessionToken },
+                }));
+                ws.send(JSON.stringify({
+                    type: 'gameState',
+                    payload: gameStatePayload(game, session.playerId),
+                }));
+
+                const deal = currentDealSession(session.gameId);
+                if (deal && deal.handNumber === game.handNumber) {
+                    ws.send(JSON.stringify({ type: 'dealState', payload: projectDealSession(deal) }));
+                }
+            }
+            else if (message.type === 'watchGame') {
+                const { gameId } = message.payload;
+                const game = games.get(gameId!);
+
+                if (!game) {
+                    console.log(`   ❌ Game not found: ${gameId}\n`);
+                    ws.send(JSON.stringify({
+                        type: 'error',
+                        payload: { message: 'Game not found' },
+                    }));
+                    return;
+                }
+
+                const watchers = spectators.get(gameId!) || new Set<WebSocket>();
+                watchers.add(ws);
+                spectators.set(gameId!, watchers);
+                console.log(`   👁 Spectator watching ${gameId} (${watchers.size} watching)\n`);
+
+                ws.send(JSON.stringify({
+                    type: 'watching',
+                    payload: { gameId, delaySeconds: game.config.spectatorDelaySeconds },
+                }));
+
+                // With a broadcast delay, start from the last state already released to spectators
+                const view = game.config.spectatorDelaySeconds === 0 ? projectGameState(game, null) : spectatorViews.get(gameId!);
+                if (view) {
+                    ws.send(JSON.stringify({ type: 'gameState', payload: view }));
+                }
+                broadcastSpectatorCount(gameId!);
+            }
+            else if (message.type === 'unwatchGame') {
+                const { gameId } = message.payload;
+                if (spectators.get(gameId!)?.delete(ws)) {
+                    console.log(`   👁 Spectator left ${gameId}\n`);
+                    broadcastSpectatorCount(gameId!);
+                }
+            }
+            else if (message.type === 'listGames') {
+                ws.send(JSON.stringify({ type: 'gameList', payload: { games: listOpenTables() } }));
+            }
+            else if (message.type === 'getHandHistory') {
+                const { gameId, handNumber, format } = message.payload;
+
+                // Only the player seated on this socket gets their own hole cards
+                const viewerId = [...playerConnections.entries()]
+                    .find(([, conn]) => conn.ws === ws && conn.gameId === gameId)?.[0] || null;
+                const hands = await exportHands(gameId!, viewerId, handNumber, format);
+                if (hands === null) {
+                    throw new Error('Game not found');
+                }
+
+                ws.send(JSON.stringify({
+                    type: 'handHistory',
+                    payload: { gameId, format: format || 'json', hands },
+                }));
+            }
+            else if (message.type === 'chat' || message.type === 'emote') {
+                const { gameId, playerId, text, emote } = message.payload;
+                const game = games.get(gameId!);
+
+                // Only a seated player can talk, and only from their own socket
+                const conn = playerConnections.get(playerId!);
+                if (!game || !conn || conn.ws !== ws || conn.gameId !== gameId) {
+                    throw new ActionError('PLAYER_NOT_FOUND', 'Only seated players can chat');
+                }
+
+                const content = message.type === 'chat' ? cleanChatText(text) : assertEmote(emote);
+                const now = Date.now();
+                chatTimestamps.set(playerId!, takeChatSlot(chatTimestamps.get(playerId!) || [], now));
+
+                const chat = createChatMessage(uuidv4(), game, playerId!, message.type, content, now);
+                console.log(`   💬 ${chat.name}: ${chat.text}`);
+                broadcastToTable(gameId!, { type: 'chat', payload: chat });
+            }
             else if (message.type === 'startGame') {
-                const { gameId, playerId } = message.payload;
+                const { gameId } = message.payload;
                 const game = games.get(gameId!);
 
                 if (!game) {
@@ -634,6 +1560,7 @@ wss.on('connection', (ws) => {
                     return;
                 }
 
+                const playerId = connectedPlayerId(ws, gameId!, message.payload.playerId);
                 const isHost = game.players[0]?.id === playerId;
                 if (!isHost) {
                     console.log(`   ❌ Only host can start the game\n`);
@@ -645,48 +1572,86 @@ wss.on('connection', (ws) => {
                 }
 
                 console.log(`   🎮 Game started by host!`);
-                game.phase = 'betting1';
-                game.activePlayerIndex = 0;
-                game.pot = 0;
-                game.highBet = 0;
-
-                game.players.forEach(p => {
-                    p.bet = 0;
-                    p.roundBet = 0;
-                    p.folded = false;
-                    p.hand = [];
-                    p.actedThisRound = false;
-                });
-
-                game.community = [];
-                game.deck = createDeck();
-
-                dealCards(game);
+                const startedGame = await dealNextHand(gameId!, 'startHand');
 
                 // Start Yellow Network App Session for real-money game
-                const playersWithWallets = game.players.filter(p => p.walletAddress);
-                // Allow 1 player for testing (YellowSession handles broker padding)
-                if (playersWithWallets.length >= 1) {
-                    try {
-                        const sessionId = await startPokerSession(
-                            gameId!,
-                            playersWithWallets.map(p => ({
-                                walletAddress: p.walletAddress!,
-                                buyIn: '0.10' // 0.10 USDC buy-in
-                            }))
-                        );
-                        game.yellowSessionId = sessionId;
-                        console.log(`   💰 Yellow App Session started: ${sessionId}`);
-                    } catch (error) {
-                        console.log(`   ⚠️ Yellow session not started (optional):`, error);
-                    }
-                }
+                await startHandSession(startedGame);
 
                 console.log(`   📢 Broadcasting gameState to all players...\n`);
                 broadcastGameState(gameId!);
+                broadcastDealState(gameId!);
+            }
+            else if (message.type === 'registerDealKey') {
+                const { gameId, playerId, publicKey } = message.payload;
+                const game = games.get(gameId!);
+
+                // Only the seat's own socket can set its key, anyone else could read its hole cards
+                const conn = playerConnections.get(playerId!);
+                if (!game || !game.players.some(p => p.id === playerId) || !conn || conn.ws !== ws || conn.gameId !== gameId) {
+                    throw new ActionError('PLAYER_NOT_FOUND', 'Player not found');
+                }
+
+                // Keys are fixed for the hand being dealt, a new one is taken once the hand is over
+                const session = currentDealSession(gameId!);
+                if (isHandInProgress(game) && session?.handNumber === game.handNumber && session.playerIds.includes(playerId!)) {
+                    throw new ActionError('HAND_IN_PROGRESS', 'Your deal key cannot change while you are dealt into a hand');
+                }
+                dealKeys.set(playerId!, parseDealPublicKey(publicKey));
+                persistGame(gameId!);
+                console.log(`   🔑 Deal key registered for ${playerId}`);
+
+                ws.send(JSON.stringify({ type: 'dealKeyRegistered', payload: { gameId, playerId } }));
+                broadcastDealState(gameId!);
+
+                // A tournament table waiting on keys deals as soon as the last one is in
+                if (game.tournament?.tournamentId) await dealWaitingTables(game.tournament.tournamentId);
+            }
+            else if (message.type === 'deal') {
+                const { gameId, playerId, step, data, signature } = message.payload;
+                const game = games.get(gameId!);
+                const session = currentDealSession(gameId!);
+
+                if (!game || !session || session.handNumber !== game.handNumber) {
+                    throw new ActionError('INVALID_DEAL_MESSAGE', 'No trustless deal in progress');
+                }
+
+                const { session: next, completed, failed } = applyDealMessage(session, playerId!, { step: step!, data: data!, signature: signature! });
+                storeDealSession(next);
+                scheduleDealTimeout(game);
+                persistGame(gameId!);
+                console.log(`   🔑 Deal ${step} from ${playerId} (stage: ${next.stage})`);
+
+                if (failed) {
+                    await handleFailedReveal(gameId!, failed);
+                    broadcastGameState(gameId!);
+                } else if (completed) {
+                    await openRequestedCards(game, next, completed.reason);
+                    broadcastGameState(gameId!);
+                }
+                broadcastDealState(gameId!);
+            }
+            else if (message.type === 'getDealTranscript') {
+                const { gameId, handNumber } = message.payload;
+                const sessions = dealSessions.get(gameId!) || [];
+                const session = handNumber === undefined ? sessions.at(-1) : sessions.find(s => s.handNumber === handNumber);
+
+                if (!session) {
+                    throw new ActionError('INVALID_DEAL_MESSAGE', 'No deal transcript for that hand');
+                }
+
+                ws.send(JSON.stringify({
+                    type: 'dealTranscript',
+                    payload: {
+                        gameId: session.gameId,
+                        handNumber: session.handNumber,
+                        playerIds: session.playerIds,
+                        publicKeys: session.publicKeys,
+                        transcript: session.transcript,
+                    },
+                }));
             }
             else if (message.type === 'action') {
-                const { gameId, action, amount, playerId } = message.payload;
+                const { gameId, action, amount } = message.payload;
                 const game = games.get(gameId!);
 
                 if (!game) {
@@ -698,142 +1663,37 @@ wss.on('connection', (ws) => {
                     return;
                 }
 
+                // Act only for the seat this socket holds, never the one named in the payload
+                const playerId = connectedPlayerId(ws, gameId!, message.payload.playerId);
+
                 if (action === 'nextRound') {
                     console.log(`   ↻ Starting new round`);
-                    game.phase = 'idle';
-                    game.pot = 0;
-                    game.highBet = 0;
-                    game.players.forEach(p => {
-                        p.bet = 0;
-                        p.folded = false;
-                        p.hand = [];
-                        p.roundBet = 0;
-                        p.actedThisRound = false;
-
-                        if (p.chips === 0) {
-                            p.chips = 1000;
-                            console.log(`   💰 ${p.name} rebuys for 1000 chips`);
-                        }
-                    });
-                    game.community = [];
-                    game.winner = null;
+                    const nextGame = await dealNextHand(gameId!, 'nextRound');
+                    await startHandSession(nextGame);
                     console.log(`   📢 Broadcasting updated gameState\n`);
                     broadcastGameState(gameId!);
+                    broadcastDealState(gameId!);
                     return;
                 }
 
-                const playerIndex = game.players.findIndex(p => p.id === playerId);
-                if (playerIndex === -1) {
-                    console.log(`   ❌ Player not found\n`);
-                    return;
-                }
-
-                console.log(`   🎯 Turn check: phase=${game.phase}, playerIndex=${playerIndex}, activePlayerIndex=${game.activePlayerIndex}`);
-                if (game.phase.startsWith('betting') && playerIndex !== game.activePlayerIndex) {
-                    console.log(`   ❌ Not ${game.players[playerIndex].name}'s turn (current: ${game.players[game.activePlayerIndex].name})\n`);
-                    ws.send(JSON.stringify({
-                        type: 'error',
-                        payload: { message: 'Not your turn' }
-                    }));
-                    return;
-                }
-
-                const player = game.players[playerIndex];
-
-                console.log(`   ⚡ Action: ${action}${amount ? ` (${amount})` : ''} by ${player.name}`);
-
-                if (action === 'fold') {
-                    player.folded = true;
-                    console.log(`   🚫 ${player.name} folded`);
-
-                    const activePlayers = game.players.filter(p => !p.folded);
-                    if (activePlayers.length === 1) {
-                        const winner = activePlayers[0];
-                        winner.chips += game.pot;
-                        console.log(`   🏆 ${winner.name} wins ${game.pot} chips (others folded)!`);
-                        game.phase = 'idle';
-                        game.pot = 0;
-                        game.foldWinner = {
-                            id: winner.id,
-                            name: winner.name,
-                            chips: winner.chips,
-                            potWon: game.pot,
-                            foldedPlayerId: player.id,
-                            foldedPlayerName: player.name
-                        };
-                        game.players.forEach(p => {
-                            p.bet = 0;
-                            p.folded = false;
-                            p.hand = [];
-                        });
-                        game.community = [];
-                    } else {
-                        advanceActivePlayer(game);
-                    }
-                }
-                else if (action === 'check') {
-                    const canCheck = game.highBet === 0 || player.roundBet >= game.highBet;
-                    if (!canCheck) {
-                        console.log(`   ❌ Cannot check - must match or exceed bet of ${game.highBet}, player round bet: ${player.roundBet}`);
-                        ws.send(JSON.stringify({
-                            type: 'error',
-                            payload: { message: `Must match bet of ${game.highBet}` }
-                        }));
-                        return;
-                    }
-                    player.actedThisRound = true;
-                    console.log(`   ✓ ${player.name} checked`);
-                    advanceActivePlayer(game);
+                const playerAction = toPlayerAction(action, playerId, amount);
+                const player = game.players.find(p => p.id === playerId);
+                console.log(`   ⚡ Action: ${action}${amount ? ` (${amount})` : ''} by ${player?.name || playerId}`);
 
-                    if (allBetsMatched(game)) {
-                        console.log(`   ✓ All bets matched - advancing phase`);
-                        await advancePhase(game);
-                    }
-                }
-                else if (action === 'bet') {
-                    if (!amount || amount <= 0 || amount > player.chips) {
-                        console.log(`   ❌ Invalid bet amount: ${amount} (available: ${player.chips})`);
-                        return;
-                    }
-
-                    const betAmount = amount;
-                    player.chips -= betAmount;
-                    player.roundBet += betAmount;
-                    game.pot += betAmount;
-                    player.actedThisRound = true;
-
-                    const maxRoundBet = Math.max(...game.players.filter(p => !p.folded && p.isActive).map(p => p.roundBet));
-                    const wasARaise = maxRoundBet > game.highBet;
-
-                    game.highBet = maxRoundBet;
-
-                    console.log(`   💰 ${player.name} bet ${betAmount} (round total: ${player.roundBet}, pot: ${game.pot})`);
-
-                    if (wasARaise) {
-                        console.log(`   🔼 Raise detected! Other players must respond`);
-                        game.players.forEach(p => {
-                            if (p.id !== player.id && !p.folded) {
-                                p.actedThisRound = false;
-                            }
-                        });
-                    }
-
-                    advanceActivePlayer(game);
-
-                    if (allBetsMatched(game)) {
-                        console.log(`   ✓ All bets matched - advancing phase`);
-                        await advancePhase(game);
-                    }
-                }
+                await dispatchAction(gameId!, playerAction);
 
                 console.log(`   📢 Broadcasting updated gameState\n`);
                 broadcastGameState(gameId!);
+                broadcastDealState(gameId!);
             }
         } catch (error: any) {
             console.error('❌ Error processing message:', error.message);
             ws.send(JSON.stringify({
                 type: 'error',
-                payload: { message: error.message },
+                payload: {
+                    message: error.message,
+                    code: error instanceof ActionError ? error.code : undefined,
+                },
             }));
         }
     });
@@ -845,6 +1705,11 @@ wss.on('connection', (ws) => {
                 playerConnections.delete(playerId);
             }
         }
+        for (const [gameId, watchers] of spectators.entries()) {
+            if (watchers.delete(ws)) {
+                broadcastSpectatorCount(gameId);
+            }
+        }
     });
 
     ws.on('error', (error) => {
@@ -856,8 +1721,18 @@ wss.on('connection', (ws) => {
 
 const PORT = process.env.PORT || 3001;
 
-server.listen(PORT, () => {
-    console.log('🎮 ═══════════════════════════════════════════════════════');
-    console.log(`✅  WebSocket Poker Server (TypeScript) listening on port ${PORT}`);
-    console.log('🎮 ═══════════════════════════════════════════════════════\n');
-});
+restoreGames()
+    .then(async (skipped) => {
+        await restoreTournaments();
+        await compactSessions(skipped);
+    })
+    .catch((error) => {
+        console.error('❌ Failed to restore games, starting empty:', error.message);
+    })
+    .then(() => {
+        server.listen(PORT, () => {
+            console.log('🎮 ═══════════════════════════════════════════════════════');
+            console.log(`✅  WebSocket Poker Server (TypeScript) listening on port ${PORT}`);
+            console.log('🎮 ═══════════════════════════════════════════════════════\n');
+        });
+    });
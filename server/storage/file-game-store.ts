@@ -0,0 +1,175 @@
+/**
+ * File-backed game storage
+ *
+ * Layout under the data directory:
+ *   games/<gameId>.json    one file per live table, replaced atomically on every save
+ *   sessions.jsonl         session tokens, appended as they are issued and compacted on restore
+ *   hands/<gameId>.jsonl   completed hands, appended in order and kept after the table closes
+ *   tournaments/<id>.json  one file per multi-table tournament, replaced like games
+ */
+
+import { appendFile, mkdir, readdir, readFile, rename, rm, writeFile } from 'fs/promises';
+import path from 'path';
+import type { HandHistory, MultiTableTournament } from '../game/types';
+import type { GameStore, PlayerSession, StoredGame } from './game-store';
+
+const SAFE_ID = /^[A-Za-z0-9-]+$/;
+
+function assertSafeId(id: string): void {
+    if (!SAFE_ID.test(id)) {
+        throw new Error(`Invalid id for storage: ${id}`);
+    }
+}
+
+async function readLines<T>(file: string): Promise<T[]> {
+    let text: string;
+    try {
+        text = await readFile(file, 'utf8');
+    } catch (error) {
+        if (error instanceof Error && 'code' in error && error.code === 'ENOENT') return [];
+        throw error;
+    }
+
+    const records: T[] = [];
+    for (const line of text.split('\n')) {
+        if (!line.trim()) continue;
+        try {
+            records.push(JSON.parse(line));
+        } catch {
+            // A crash mid-append can leave a torn last line
+            console.warn(`⚠️ Skipping unreadable line in ${file}`);
+        }
+    }
+    return records;
+}
+
+export class FileGameStore implements GameStore {
+    private readonly gamesDir: string;
+    private readonly handsDir: string;
+    private readonly tournamentsDir: string;
+    private readonly sessionsFile: string;
+    private ready: Promise<void> | null = null;
+    private writes = new Map<string, Promise<void>>();  // file → last queued write
+
+    constructor(private readonly dataDir: string) {
+        this.gamesDir = path.join(dataDir, 'games');
+        this.handsDir = path.join(dataDir, 'hands');
+        this.tournamentsDir = path.join(dataDir, 'tournaments');
+        this.sessionsFile = path.join(dataDir, 'sessions.jsonl');
+    }
+
+    private init(): Promise<void> {
+        this.ready ??= Promise.all([
+            mkdir(this.gamesDir, { recursive: true }),
+            mkdir(this.handsDir, { recursive: true }),
+            mkdir(this.tournamentsDir, { recursive: true }),
+        ]).then(() => undefined);
+        return this.ready;
+    }
+
+    /**
+     * Run writes to the same file one at a time, in the order they were made
+     */
+    private queueWrite(file: string, write: () => Promise<void>): Promise<void> {
+        const previous = this.writes.get(file) || Promise.resolve();
+        const next = previous.catch(() => undefined).then(async () => {
+            await this.init();
+            await write();
+        });
+        this.writes.set(file, next);
+        next.finally(() => {
+            if (this.writes.get(file) === next) this.writes.delete(file);
+        }).catch(() => undefined);
+        return next;
+    }
+
+    async loadGames(): Promise<StoredGame[]> {
+        await this.init();
+        const stored: StoredGame[] = [];
+
+        for (const name of await readdir(this.gamesDir)) {
+            if (!name.endsWith('.json')) continue;
+            try {
+                stored.push(JSON.parse(await readFile(path.join(this.gamesDir, name), 'utf8')));
+            } catch {
+                console.warn(`⚠️ Skipping unreadable game file ${name}`);
+            }
+        }
+        return stored;
+    }
+
+    async saveGame(stored: StoredGame): Promise<void> {
+        assertSafeId(stored.game.gameId);
+        const file = path.join(this.gamesDir, `${stored.game.gameId}.json`);
+        const json = JSON.stringify(stored);
+
+        // Write a temp file and rename it over the old one so a crash never leaves half a game
+        return this.queueWrite(file, async () => {
+            await writeFile(`${file}.tmp`, json);
+            await rename(`${file}.tmp`, file);
+        });
+    }
+
+    async deleteGame(gameId: string): Promise<void> {
+        assertSafeId(gameId);
+        const file = path.join(this.gamesDir, `${gameId}.json`);
+        return this.queueWrite(file, () => rm(file, { force: true }));
+    }
+
+    async loadPlayerSessions(): Promise<Map<string, PlayerSession>> {
+        const lines = await readLines<{ sessionToken: string } & PlayerSession>(this.sessionsFile);
+        return new Map(lines.map(({ sessionToken, playerId, gameId }) => [sessionToken, { playerId, gameId }]));
+    }
+
+    async savePlayerSession(sessionToken: string, session: PlayerSession): Promise<void> {
+        const line = JSON.stringify({ sessionToken, ...session }) + '\n';
+        return this.queueWrite(this.sessionsFile, () => appendFile(this.sessionsFile, line));
+    }
+
+    async replacePlayerSessions(sessions: Map<string, PlayerSession>): Promise<void> {
+        const text = [...sessions].map(([sessionToken, session]) => JSON.stringify({ sessionToken, ...session }) + '\n').join('');
+
+        return this.queueWrite(this.sessionsFile, async () => {
+            await writeFile(`${this.sessionsFile}.tmp`, text);
+            await rename(`${this.sessionsFile}.tmp`, this.sessionsFile);
+        });
+    }
+
+    async saveHand(hand: HandHistory): Promise<void> {
+        assertSafeId(hand.gameId);
+        const file = path.join(this.handsDir, `${hand.gameId}.jsonl`);
+        return this.queueWrite(file, () => appendFile(file, JSON.stringify(hand) + '\n'));
+    }
+
+    async loadHands(gameId: string): Promise<HandHistory[]> {
+        assertSafeId(gameId);
+        await this.init();
+        return readLines<HandHistory>(path.join(this.handsDir, `${gameId}.jsonl`));
+    }
+
+    async loadTournaments(): Promise<MultiTableTournament[]> {
+        await this.init();
+        const stored: MultiTableTournament[] = [];
+
+        for (const name of await readdir(this.tournamentsDir)) {
+            if (!name.endsWith('.json')) continue;
+            try {
+                stored.push(JSON.parse(await readFile(path.join(this.tournamentsDir, name), 'utf8')));
+            } catch {
+                console.warn(`⚠️ Skipping unreadable tournament file ${name}`);
+            }
+        }
+        return stored;
+    }
+
+    async saveTournament(mtt: MultiTableTournament): Promise<void> {
+        assertSafeId(mtt.tournamentId);
+        const file = path.join(this.tournamentsDir, `${mtt.tournamentId}.json`);
+        const json = JSON.stringify(mtt);
+
+        return this.queueWrite(file, async () => {
+            await writeFile(`${file}.tmp`, json);
+            await rename(`${file}.tmp`, file);
+        });
+    }
+}
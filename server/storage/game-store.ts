@@ -0,0 +1,37 @@
+/**
+ * Game storage
+ * Everything the server needs to bring live tables back after a restart.
+ * Sockets are not stored: players reconnect with their session token.
+ */
+
+import type { JsonWebKey } from 'crypto';
+import type { Game, HandHistory, MultiTableTournament } from '../game/types';
+import type { DealSession } from '../game/trustless-deal';
+
+export interface StoredGame {
+    game: Game;
+    dealKeys: Record<string, JsonWebKey>; // playerId → deal public key of the players seated here
+    dealSessions: DealSession[];       // Recent trustless deals, latest last
+    handInProgress: HandHistory | null; // Record of the hand being played
+}
+
+export interface PlayerSession {
+    playerId: string;
+    gameId: string;
+}
+
+export interface GameStore {
+    loadGames(): Promise<StoredGame[]>;
+    saveGame(stored: StoredGame): Promise<void>;
+    deleteGame(gameId: string): Promise<void>;                   // The table only, its hand history stays for replays
+
+    loadPlayerSessions(): Promise<Map<string, PlayerSession>>;   // session token → seat
+    savePlayerSession(sessionToken: string, session: PlayerSession): Promise<void>;
+    replacePlayerSessions(sessions: Map<string, PlayerSession>): Promise<void>;
+
+    saveHand(hand: HandHistory): Promise<void>;
+    loadHands(gameId: string): Promise<HandHistory[]>;
+
+    loadTournaments(): Promise<MultiTableTournament[]>;
+    saveTournament(mtt: MultiTableTournament): Promise<void>;
+}
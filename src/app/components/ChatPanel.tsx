@@ -0,0 +1,108 @@
+'use client'
+import React, { useEffect, useRef, useState } from 'react'
+import { EMOTES, MAX_CHAT_LENGTH, ChatMessage } from '../hooks/useTableChat'
+
+type ChatPlayer = { id: string; name: string; walletAddress?: string | null }
+
+type ChatPanelProps = {
+  messages: ChatMessage[]
+  players: ChatPlayer[]
+  playerId: string
+  canSend: boolean // Spectators read along but cannot talk
+  isMuted: (player: ChatPlayer) => boolean
+  onSend: (text: string) => void
+  onEmote: (emote: string) => void
+  onToggleMute: (player: ChatPlayer) => void
+}
+
+export default function ChatPanel({ messages, players, playerId, canSend, isMuted, onSend, onEmote, onToggleMute }: ChatPanelProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [draft, setDraft] = useState('')
+  const [seenCount, setSeenCount] = useState(0)
+  const listRef = useRef<HTMLDivElement>(null)
+  const unread = isOpen ? 0 : Math.max(0, messages.length - seenCount)
+
+  // Keep the newest message in view
+  useEffect(() => {
+    if (isOpen && listRef.current) listRef.current.scrollTop = listRef.current.scrollHeight
+  }, [isOpen, messages.length])
+
+  const toggle = () => {
+    setIsOpen(!isOpen)
+    setSeenCount(messages.length)
+  }
+
+  const send = () => {
+    if (!draft.trim()) return
+    onSend(draft)
+    setDraft('')
+  }
+
+  const opponents = players.filter((p) => p.id !== playerId)
+
+  return (
+    <div style={{ position: 'fixed', right: 20, bottom: 90, zIndex: 250, width: isOpen ? 300 : 'auto' }}>
+      {isOpen && (
+        <div style={{ marginBottom: 8, background: 'linear-gradient(135deg, #0a0a14 0%, #16213e 100%)', border: '2px solid #00BFFF', borderRadius: 12, padding: 10, boxShadow: '0 0 20px rgba(0, 191, 255, 0.4)' }}>
+          {opponents.length > 0 && (
+            <div style={{ display: 'flex', flexWrap: 'wrap', gap: 4, marginBottom: 8 }}>
+              {opponents.map((p) => (
+                <button
+                  key={p.id}
+                  onClick={() => onToggleMute(p)}
+                  title={isMuted(p) ? `Unmute ${p.name}` : `Mute ${p.name}`}
+                  style={{ padding: '2px 6px', background: isMuted(p) ? 'rgba(255,107,53,0.3)' : 'rgba(255,255,255,0.08)', color: isMuted(p) ? '#FF6B35' : '#aaa', border: '1px solid #444', borderRadius: 4, cursor: 'pointer', fontSize: 10 }}
+                >
+                  {isMuted(p) ? '🔇' : '🔊'} {p.name.slice(0, 10)}
+                </button>
+              ))}
+            </div>
+          )}
+
+          <div ref={listRef} style={{ height: 180, overflowY: 'auto', display: 'flex', flexDirection: 'column', gap: 4, fontSize: 12 }}>
+            {messages.length === 0 && <span style={{ color: '#666', fontStyle: 'italic' }}>No messages yet</span>}
+            {messages.map((m) => (
+              <div key={m.id} style={{ color: '#ddd', wordBreak: 'break-word' }}>
+                <strong style={{ color: m.playerId === playerId ? '#00FF88' : '#00BFFF' }}>{m.name}:</strong> {m.text}
+              </div>
+            ))}
+          </div>
+
+          {canSend && (
+            <>
+              <div style={{ display: 'flex', flexWrap: 'wrap', gap: 2, margin: '8px 0' }}>
+                {EMOTES.map((emote) => (
+                  <button key={emote} onClick={() => onEmote(emote)} style={{ padding: '2px 4px', background: 'transparent', border: 'none', cursor: 'pointer', fontSize: 16 }}>
+                    {emote}
+                  </button>
+                ))}
+              </div>
+              <div style={{ display: 'flex', gap: 6 }}>
+                <input
+                  value={draft}
+                  maxLength={MAX_CHAT_LENGTH}
+                  onChange={(e) => setDraft(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') send()
+                  }}
+                  placeholder="Say something…"
+                  style={{ flex: 1, padding: '6px 8px', background: '#0a0a14', color: '#fff', border: '1px solid #00BFFF', borderRadius: 6, fontSize: 12 }}
+                />
+                <button onClick={send} style={{ padding: '6px 10px', background: 'rgba(0,191,255,0.2)', color: '#00FFFF', border: '1px solid #00BFFF', borderRadius: 6, cursor: 'pointer', fontWeight: 'bold', fontSize: 12 }}>
+                  Send
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+
+      <button
+        onClick={toggle}
+        style={{ float: 'right', padding: '8px 14px', background: 'linear-gradient(135deg, #00BFFF 0%, #00FFCC 100%)', color: '#000', border: 'none', borderRadius: 20, cursor: 'pointer', fontWeight: 'bold', fontSize: 12, boxShadow: '0 0 10px rgba(0, 191, 255, 0.6)' }}
+      >
+        💬 {isOpen ? 'Hide chat' : 'Chat'}{unread > 0 ? ` (${unread})` : ''}
+      </button>
+    </div>
+  )
+}
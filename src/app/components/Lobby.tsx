@@ -0,0 +1,121 @@
+'use client'
+import React, { useState } from 'react'
+import {
+  filterTables,
+  pickQuickSeat,
+  sortTables,
+  DEFAULT_LOBBY_FILTER,
+  LobbyFilter,
+  LobbySort,
+  TableSummary,
+  STRUCTURE_NAMES,
+  VARIANT_NAMES,
+} from '../utils/lobby'
+
+type LobbyProps = {
+  tables: TableSummary[]
+  canJoin: boolean
+  onJoin: (gameId: string) => void
+  onWatch: (gameId: string) => void
+}
+
+const selectStyle: React.CSSProperties = {
+  flex: 1,
+  padding: 4,
+  borderRadius: 4,
+  border: '1px solid #00BFFF',
+  background: '#0a0a14',
+  color: '#00FFFF',
+  fontSize: 10,
+}
+
+export default function Lobby({ tables, canJoin, onJoin, onWatch }: LobbyProps) {
+  const [sort, setSort] = useState<LobbySort>('players')
+  const [filter, setFilter] = useState<LobbyFilter>(DEFAULT_LOBBY_FILTER)
+
+  const shown = sortTables(filterTables(tables, filter), sort)
+  const quickSeat = pickQuickSeat(tables, filter)
+  const variants = Array.from(new Set(tables.map((t) => t.variant)))
+
+  return (
+    <div style={{ padding: 12, background: 'linear-gradient(135deg, rgba(255, 215, 0, 0.15) 0%, rgba(255, 105, 180, 0.1) 100%)', borderRadius: 8, border: '2px solid #FFD700' }}>
+      <h3 style={{ margin: '0 0 6px 0', color: '#FFD700', fontSize: 13, textShadow: '0 0 10px rgba(255, 215, 0, 0.8)' }}>🃏 Open Tables</h3>
+
+      <div style={{ display: 'flex', gap: 6, marginBottom: 8 }}>
+        <select value={sort} onChange={(e) => setSort(e.target.value as LobbySort)} style={selectStyle} title="Sort by">
+          <option value="players">Most players</option>
+          <option value="stakes">Highest stakes</option>
+          <option value="averagePot">Biggest pots</option>
+        </select>
+        <select value={filter.variant} onChange={(e) => setFilter({ ...filter, variant: e.target.value })} style={selectStyle} title="Variant">
+          <option value="any">Any game</option>
+          {variants.map((v) => <option key={v} value={v}>{VARIANT_NAMES[v] || v}</option>)}
+        </select>
+        <select value={filter.currency} onChange={(e) => setFilter({ ...filter, currency: e.target.value as LobbyFilter['currency'] })} style={selectStyle} title="Stakes">
+          <option value="any">Any stakes</option>
+          <option value="play">Play money</option>
+          <option value="usdc">USDC</option>
+        </select>
+        <input
+          type="number"
+          min={0}
+          value={filter.maxBigBlind ?? ''}
+          onChange={(e) => setFilter({ ...filter, maxBigBlind: e.target.value === '' ? null : Math.max(0, Number(e.target.value)) })}
+          placeholder="Max BB"
+          title="Largest big blind to show"
+          style={{ ...selectStyle, width: 60, flex: 'none' }}
+        />
+      </div>
+
+      <div style={{ maxHeight: 180, overflowY: 'auto', display: 'flex', flexDirection: 'column', gap: 4, marginBottom: 8 }}>
+        {shown.length === 0 && <p style={{ fontSize: 10, color: '#aaa', margin: 0 }}>No open tables match, host one below</p>}
+        {shown.map((t) => (
+          <div key={t.gameId} style={{ display: 'flex', alignItems: 'center', gap: 8, padding: '4px 8px', background: 'rgba(255,255,255,0.05)', borderRadius: 4, fontSize: 10, textAlign: 'left' }}>
+            <span style={{ color: '#FFED4E', fontWeight: 'bold', minWidth: 80 }}>{t.tournament ? '🏆 ' : ''}{STRUCTURE_NAMES[t.bettingStructure] || ''} {VARIANT_NAMES[t.variant] || t.variant}</span>
+            <span style={{ color: '#00FFCC', minWidth: 60 }}>{t.smallBlind}/{t.bigBlind}{t.ante > 0 ? ` (${t.ante})` : ''}</span>
+            <span style={{ color: '#fff', minWidth: 40 }} title={t.rebuyPolicy === 'auto' ? 'Starting stack, busted players rebuy' : 'Starting stack, no rebuys'}>
+              {t.startingStack}{t.rebuyPolicy === 'auto' ? ' ↻' : ''}
+            </span>
+            <span style={{ color: t.currency === 'usdc' ? '#00FF88' : '#aaa', minWidth: 34 }} title={t.currency === 'usdc' ? `${t.buyInUsdc} USDC buy-in` : undefined}>
+              {t.currency === 'usdc' ? `${t.buyInUsdc} USDC` : 'Play'}
+            </span>
+            <span style={{ color: '#fff', minWidth: 30 }}>{t.seatsFilled}/{t.seats}</span>
+            <span style={{ color: '#aaa', flex: 1 }} title={`${t.handsPlayed} hands played`}>avg pot {t.averagePot}</span>
+            <button
+              onClick={() => onJoin(t.gameId)}
+              disabled={!canJoin}
+              style={{ padding: '2px 8px', background: canJoin ? 'rgba(0,191,255,0.3)' : '#555', color: canJoin ? '#00FFFF' : '#fff', border: '1px solid #00BFFF', borderRadius: 4, cursor: canJoin ? 'pointer' : 'not-allowed', fontWeight: 'bold', fontSize: 10 }}
+            >
+              Sit
+            </button>
+            <button
+              onClick={() => onWatch(t.gameId)}
+              title="Watch without taking a seat"
+              style={{ padding: '2px 6px', background: 'transparent', color: '#00BFFF', border: '1px solid #00BFFF', borderRadius: 4, cursor: 'pointer', fontSize: 10 }}
+            >
+              👁
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <button
+        onClick={() => quickSeat && onJoin(quickSeat.gameId)}
+        disabled={!canJoin || !quickSeat}
+        style={{
+          width: '100%',
+          padding: 10,
+          background: canJoin && quickSeat ? 'linear-gradient(135deg, #FFD700 0%, #FF69B4 100%)' : '#555',
+          color: canJoin && quickSeat ? '#000' : '#fff',
+          border: 'none',
+          borderRadius: 6,
+          cursor: canJoin && quickSeat ? 'pointer' : 'not-allowed',
+          fontWeight: 'bold',
+          fontSize: 12,
+        }}
+      >
+        ⚡ Quick Seat{quickSeat ? ` (${quickSeat.smallBlind}/${quickSeat.bigBlind}, ${quickSeat.seatsFilled}/${quickSeat.seats})` : ''}
+      </button>
+    </div>
+  )
+}
@@ -3,8 +3,9 @@ import React from 'react'
 import Card from './Card'
 import HiddenCard from './HiddenCard'
 import { PlayerName } from './PlayerName'
+import TurnTimer from './TurnTimer'
 
-export default function PlayerSeat({ player, position = 0, currentPlayerId, phase }: any) {
+export default function PlayerSeat({ player, position = 0, currentPlayerId, phase, turnClock, actionSeconds, emote }: any) {
   if (!player) return null
 
   const chipCountImageURL = '/old-assets/chips.svg'
@@ -14,12 +15,15 @@ export default function PlayerSeat({ player, position = 0, currentPlayerId, phas
 
   // Use wallet address for Basename lookup if available
   const walletAddress = player.walletAddress as `0x${string}` | undefined
+  const cards = player.cards || player.hand || []
 
   return (
     <div className={`player-entity--wrapper p${position}`}>
       <div className="player-entity--container">
         <div className="player-avatar--container">
           <img className={`player-avatar--image${player.isActive ? ' activePlayer' : ''}`} src={avatarURL} alt="Player Avatar" />
+          {turnClock?.playerId === player.id && <TurnTimer clock={turnClock} actionSeconds={actionSeconds} />}
+          {emote && <div key={emote.id} className="emote-bubble">{emote.emote}</div>}
           <h5 className="player-info--name">
             {walletAddress ? (
               <PlayerName address={walletAddress} />
@@ -42,9 +46,10 @@ export default function PlayerSeat({ player, position = 0, currentPlayerId, phas
           ) : null}
         </div>
       </div>
-      <div className='centered-flex-row abscard'>
-        {(player.cards || player.hand || []).map((c: any, i: number) => (
-          player.id === currentPlayerId ? (
+      <div className={`centered-flex-row abscard${cards.length > 2 ? ' abscard--four' : ''}`}>
+        {cards.map((c: any, i: number) => (
+          // The server only sends card faces we are allowed to see, the rest arrive as null
+          c && (player.id === currentPlayerId || phase === 'showdown') ? (
             <Card key={i} cardData={c} applyFoldedClassname={player.folded} isShowdownCard={phase === 'showdown'} />
           ) : (
             <HiddenCard key={i} cardData={c} applyFoldedClassname={player.folded} isShowdownCard={phase === 'showdown'} />
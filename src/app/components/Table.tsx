@@ -2,38 +2,47 @@
 import React from 'react'
 import PlayerSeat from './PlayerSeat'
 
+// Seat slots (the .p0-.p9 classes) to use for each table size, clockwise from the viewer at p0
+const SEAT_LAYOUTS: Record<number, number[]> = {
+  2: [0, 5],
+  3: [0, 3, 7],
+  4: [0, 2, 5, 8],
+  5: [0, 2, 3, 7, 8],
+  6: [0, 1, 3, 5, 7, 9],
+  7: [0, 1, 2, 4, 6, 8, 9],
+  8: [0, 1, 2, 3, 5, 7, 8, 9],
+  9: [0, 1, 2, 3, 4, 6, 7, 8, 9],
+}
+
+type SeatedPlayer = { id: string }
+
 export default function Table({ state, actions }: any) {
-  const players = state.players || []
+  const players: SeatedPlayer[] = state.players || []
+  const seatCount = Math.min(9, Math.max(2, state.config?.seats || players.length))
+  const layout = SEAT_LAYOUTS[seatCount] || SEAT_LAYOUTS[9]
 
-  // Reorder players so current player is always at position 0 (bottom center)
-  // and opponent at position 1 (bottom left)
-  const orderedPlayers = []
-  if (players.length > 0) {
-    const currentPlayerIndex = players.findIndex((p: any) => p.id === state.playerId)
-    
-    if (currentPlayerIndex === -1) {
-      // If current player not found, use original order
-      orderedPlayers.push(players[0])
-      orderedPlayers.push(players[1])
-    } else {
-      // Put current player first (position 0 - bottom center)
-      orderedPlayers.push(players[currentPlayerIndex])
-      // Put opponent second (position 1 - bottom left)
-      const opponentIndex = currentPlayerIndex === 0 ? 1 : 0
-      if (players[opponentIndex]) {
-        orderedPlayers.push(players[opponentIndex])
-      }
-    }
-  }
+  // Rotate the table so the current player always sits at the bottom center
+  // and everyone else follows clockwise in seat order
+  const currentPlayerIndex = players.findIndex((p) => p.id === state.playerId)
+  const viewerSeat = currentPlayerIndex === -1 ? 0 : currentPlayerIndex
 
   return (
     <section className="poker-app--background">
       <div className="poker-table--container">
         <img className="poker-table--table-image" src={'/old-assets/table-nobg-svg-01.svg'} alt="Poker Table" />
 
-        {/* Render players in order: current player at position 0 (bottom center), opponent at position 1 (bottom left) */}
-        {orderedPlayers[0] ? <PlayerSeat key={orderedPlayers[0].id} player={orderedPlayers[0]} position={0} currentPlayerId={state.playerId} phase={state.phase} /> : null}
-        {orderedPlayers[1] ? <PlayerSeat key={orderedPlayers[1].id} player={orderedPlayers[1]} position={1} currentPlayerId={state.playerId} phase={state.phase} /> : null}
+        {players.map((player, seat) => (
+          <PlayerSeat
+            key={player.id}
+            player={player}
+            position={layout[(seat - viewerSeat + seatCount) % seatCount]}
+            currentPlayerId={state.playerId}
+            phase={state.phase}
+            turnClock={state.turnClock}
+            actionSeconds={state.config?.actionSeconds || 0}
+            emote={state.emotes?.[player.id]}
+          />
+        ))}
       </div>
     </section>
   )
@@ -0,0 +1,102 @@
+'use client'
+import React, { useEffect, useState } from 'react'
+import { Tournament } from '../hooks/useWebSocketGame'
+
+type TournamentPanelProps = {
+  tournament: Tournament
+  handNumber: number
+  playerId: string
+}
+
+const ORDINALS = ['1st', '2nd', '3rd']
+
+function ordinal(position: number) {
+  return ORDINALS[position - 1] || `${position}th`
+}
+
+function formatUsdc(amount: number) {
+  return `${amount.toFixed(2)} USDC`
+}
+
+// How long until the blinds go up, or null on the last level
+function nextLevelIn(tournament: Tournament, handNumber: number, now: number) {
+  if (tournament.level >= tournament.config.levels.length - 1) return null
+  const { levelBy, levelLength } = tournament.config
+  if (levelBy === 'hands') {
+    const left = Math.max(0, tournament.levelStartedHand + levelLength - handNumber - 1)
+    return `after ${left} more hand${left === 1 ? '' : 's'}`
+  }
+  const msLeft = Math.max(0, tournament.levelStartedAt + levelLength * 60_000 - now)
+  const seconds = Math.ceil(msLeft / 1000)
+  return `in ${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`
+}
+
+export default function TournamentPanel({ tournament, handNumber, playerId }: TournamentPanelProps) {
+  const [now, setNow] = useState(() => Date.now())
+  const isTimed = tournament.status === 'running' && tournament.config.levelBy === 'minutes'
+
+  // Tick the level countdown once a second on a timed schedule
+  useEffect(() => {
+    if (!isTimed) return
+    const timer = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(timer)
+  }, [isTimed])
+
+  const level = tournament.config.levels[tournament.level]
+  const nextLevel = tournament.config.levels[tournament.level + 1]
+  const isUsdc = tournament.config.buyIn > 0
+  const standings = [...tournament.finishes].sort((a, b) => a.position - b.position)
+  const playersLeft = tournament.entrants - tournament.finishes.filter((f) => f.position > 1).length
+  const upNext = nextLevelIn(tournament, handNumber, now)
+
+  return (
+    <div style={{ position: 'fixed', left: 20, bottom: 90, zIndex: 250, width: 220, background: 'linear-gradient(135deg, #0a0a14 0%, #16213e 100%)', border: '2px solid #FFD700', borderRadius: 12, padding: 10, boxShadow: '0 0 20px rgba(255, 215, 0, 0.4)', fontSize: 11, color: '#fff' }}>
+      <div style={{ color: '#FFD700', fontWeight: 'bold', fontSize: 13, marginBottom: 6 }}>🏆 {tournament.tournamentId ? 'Tournament' : <>Sit &amp; Go</>}</div>
+
+      {tournament.status === 'registering' && (
+        <>
+          <div>Starting stack <b style={{ color: '#00FFCC' }}>{tournament.config.startingStack}</b></div>
+          <div>Buy-in <b style={{ color: '#00FF88' }}>{isUsdc ? formatUsdc(tournament.config.buyIn) : 'Free'}</b></div>
+          <div>Blinds start at <b style={{ color: '#FFED4E' }}>{level.smallBlind}/{level.bigBlind}</b>, up every {tournament.config.levelLength} {tournament.config.levelBy}</div>
+          <div style={{ color: '#aaa', marginTop: 4 }}>Registering, the host deals the first hand to start</div>
+        </>
+      )}
+
+      {tournament.status === 'running' && (
+        <>
+          <div>
+            Level {tournament.level + 1}: <b style={{ color: '#FFED4E' }}>{level.smallBlind}/{level.bigBlind}{level.ante > 0 ? ` ante ${level.ante}` : ''}</b>
+          </div>
+          {nextLevel && upNext && (
+            <div style={{ color: '#aaa' }}>
+              Next {nextLevel.smallBlind}/{nextLevel.bigBlind}{nextLevel.ante > 0 ? ` ante ${nextLevel.ante}` : ''} {upNext}
+            </div>
+          )}
+          <div>Players left <b style={{ color: '#00FFCC' }}>{playersLeft}/{tournament.entrants}</b></div>
+          {isUsdc && (
+            <div style={{ marginTop: 4 }}>
+              {tournament.prizes.map((prize, i) => (
+                <div key={i} style={{ display: 'flex', justifyContent: 'space-between', color: '#00FF88' }}>
+                  <span>{ordinal(i + 1)}</span>
+                  <span>{formatUsdc(prize)}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+
+      {standings.length > 0 && (
+        <div style={{ marginTop: 6, borderTop: '1px solid #333', paddingTop: 4 }}>
+          {tournament.status === 'finished' && <div style={{ color: '#FFD700', fontWeight: 'bold', marginBottom: 2 }}>Final standings</div>}
+          {standings.map((f) => (
+            <div key={f.playerId} style={{ display: 'flex', justifyContent: 'space-between', gap: 6, color: f.playerId === playerId ? '#FFD700' : '#ccc' }}>
+              <span>{ordinal(f.position)} {f.name}</span>
+              {f.prize > 0 && <span style={{ color: '#00FF88' }}>{formatUsdc(f.prize)}</span>}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
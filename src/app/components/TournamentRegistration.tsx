@@ -0,0 +1,85 @@
+'use client'
+import React, { useState } from 'react'
+import { TournamentRegistration as Registration } from '../hooks/useWebSocketGame'
+
+type TournamentRegistrationProps = {
+  registration: Registration | null
+  playerId: string
+  canRegister: boolean
+  onRegister: (tournamentId: string) => void
+  onStart: () => void
+}
+
+// Register for a multi-table tournament by ID and wait to be seated
+export default function TournamentRegistration({ registration, playerId, canRegister, onRegister, onStart }: TournamentRegistrationProps) {
+  const [tournamentId, setTournamentId] = useState('')
+  const isHost = registration?.hostId === playerId
+  const config = registration?.tournament.config
+
+  return (
+    <div style={{ padding: 12, background: 'linear-gradient(135deg, rgba(255, 215, 0, 0.2) 0%, rgba(255, 140, 66, 0.15) 100%)', borderRadius: 8, border: '2px solid #FFA500' }}>
+      <h3 style={{ margin: '0 0 6px 0', color: '#FFA500', fontSize: 13, textShadow: '0 0 10px rgba(255, 165, 0, 0.8)' }}>🏟 Multi-Table Tournament</h3>
+
+      {!registration ? (
+        <div style={{ display: 'flex', gap: 8 }}>
+          <input
+            type="text"
+            value={tournamentId}
+            onChange={(e) => setTournamentId(e.target.value)}
+            placeholder="Tournament ID"
+            style={{ flex: 1, padding: 8, borderRadius: 6, border: '2px solid #FFA500', background: '#0a0a14', color: '#FFD700', boxSizing: 'border-box', fontSize: 10 }}
+          />
+          <button
+            onClick={() => onRegister(tournamentId.trim())}
+            disabled={!canRegister || !tournamentId.trim()}
+            style={{ padding: '8px 16px', background: canRegister && tournamentId.trim() ? 'linear-gradient(135deg, #FFD700 0%, #FFA500 100%)' : '#555', color: canRegister && tournamentId.trim() ? '#000' : '#fff', border: 'none', borderRadius: 6, cursor: canRegister && tournamentId.trim() ? 'pointer' : 'not-allowed', fontWeight: 'bold', fontSize: 11 }}
+          >
+            Register
+          </button>
+        </div>
+      ) : (
+        <div style={{ fontSize: 11, color: '#fff', textAlign: 'left' }}>
+          <div style={{ display: 'flex', alignItems: 'center', gap: 6, marginBottom: 6 }}>
+            <span style={{ color: '#FFA500', fontWeight: 'bold' }}>ID</span>
+            <span style={{ color: '#FFD700', fontSize: 10, flex: 1, overflow: 'hidden', textOverflow: 'ellipsis' }}>{registration.tournamentId}</span>
+            <button
+              onClick={() => navigator.clipboard.writeText(registration.tournamentId)}
+              title="Copy Tournament ID"
+              style={{ padding: '2px 6px', background: 'linear-gradient(135deg, #FFD700 0%, #FFA500 100%)', color: '#000', border: 'none', borderRadius: 4, cursor: 'pointer', fontSize: 10, fontWeight: 'bold' }}
+            >
+              📋
+            </button>
+          </div>
+          {config && (
+            <div style={{ color: '#aaa', marginBottom: 6 }}>
+              Stack {config.startingStack}, blinds up every {config.levelLength} minutes, {config.buyIn > 0 ? `${config.buyIn.toFixed(2)} USDC buy-in` : 'free to enter'}
+            </div>
+          )}
+          <div style={{ color: '#FFA500', fontWeight: 'bold', marginBottom: 2 }}>
+            {registration.registrants.length} registered
+          </div>
+          <div style={{ maxHeight: 90, overflowY: 'auto', marginBottom: 8 }}>
+            {registration.registrants.map((r) => (
+              <div key={r.playerId} style={{ color: r.playerId === playerId ? '#FFD700' : '#ccc' }}>
+                {r.name}{r.playerId === registration.hostId ? ' (host)' : ''}
+              </div>
+            ))}
+          </div>
+          {registration.tournament.status !== 'registering' ? (
+            <div style={{ color: '#aaa' }}>Running on {registration.tables} table{registration.tables === 1 ? '' : 's'}</div>
+          ) : isHost ? (
+            <button
+              onClick={onStart}
+              disabled={registration.registrants.length < 2}
+              style={{ width: '100%', padding: 8, background: registration.registrants.length >= 2 ? 'linear-gradient(135deg, #FFD700 0%, #FFA500 100%)' : '#555', color: registration.registrants.length >= 2 ? '#000' : '#fff', border: 'none', borderRadius: 6, cursor: registration.registrants.length >= 2 ? 'pointer' : 'not-allowed', fontWeight: 'bold', fontSize: 12 }}
+            >
+              🏁 Start Tournament
+            </button>
+          ) : (
+            <div style={{ color: '#aaa' }}>Waiting for the host to start, you will be seated automatically</div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,54 @@
+'use client'
+import React, { useEffect, useState } from 'react'
+
+export type TurnClock = {
+  playerId: string
+  actionMs: number // Left on the shot clock when the state arrived
+  timeBankMs: number // Left in the time bank after that
+  receivedAt: number // Local time the state arrived
+}
+
+const RADIUS = 46
+const CIRCUMFERENCE = 2 * Math.PI * RADIUS
+
+// Countdown ring around the avatar of the player to act: the shot clock
+// first, then the time bank in orange
+export default function TurnTimer({ clock, actionSeconds }: { clock: TurnClock; actionSeconds: number }) {
+  const [now, setNow] = useState(() => Date.now())
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 200)
+    return () => clearInterval(timer)
+  }, [])
+
+  const elapsed = Math.max(0, now - clock.receivedAt)
+  const actionLeft = Math.max(0, clock.actionMs - elapsed)
+  const bankLeft = Math.max(0, clock.timeBankMs - Math.max(0, elapsed - clock.actionMs))
+  const inTimeBank = actionLeft === 0
+  const fraction = inTimeBank
+    ? clock.timeBankMs > 0 ? bankLeft / clock.timeBankMs : 0
+    : actionLeft / Math.max(clock.actionMs, actionSeconds * 1000)
+
+  return (
+    <div className="turn-timer">
+      <svg viewBox="0 0 100 100">
+        <circle cx="50" cy="50" r={RADIUS} fill="none" stroke="rgba(255,255,255,0.15)" strokeWidth="5" />
+        <circle
+          cx="50"
+          cy="50"
+          r={RADIUS}
+          fill="none"
+          stroke={inTimeBank ? '#FF8C42' : fraction < 0.25 ? '#FFD700' : '#00FF88'}
+          strokeWidth="5"
+          strokeLinecap="round"
+          strokeDasharray={CIRCUMFERENCE}
+          strokeDashoffset={CIRCUMFERENCE * (1 - fraction)}
+          transform="rotate(-90 50 50)"
+        />
+      </svg>
+      <span className="turn-timer--seconds" style={{ color: inTimeBank ? '#FF8C42' : '#00FF88' }}>
+        {Math.ceil((inTimeBank ? bankLeft : actionLeft) / 1000)}
+      </span>
+    </div>
+  )
+}
@@ -0,0 +1,99 @@
+'use client'
+import React, { useEffect, useState } from 'react'
+import Card from './Card'
+import { recomputeDeal, sameCard, DealCheck, DeckCard, HandFairness, SeenCard } from '../utils/fairness'
+
+type VerifyHandProps = {
+  fairness: HandFairness
+  players: { id: string; name: string; hand?: (SeenCard | null)[] }[]
+  community: SeenCard[]
+  onClose: () => void
+}
+
+// Compare a recomputed card with the card we actually saw, if we saw it
+function CheckedCard({ expected, seen }: { expected: DeckCard; seen?: SeenCard | null }) {
+  const mark = !seen ? '' : sameCard(expected, seen) ? '✓' : '✗'
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', gap: 2 }}>
+      <Card cardData={expected} />
+      <span style={{ fontSize: 12, fontWeight: 'bold', color: mark === '✗' ? '#FF6B35' : '#00FF88', minHeight: 14 }}>{mark}</span>
+    </div>
+  )
+}
+
+export default function VerifyHand({ fairness, players, community, onClose }: VerifyHandProps) {
+  const [deal, setDeal] = useState<DealCheck | null>(null)
+  const [error, setError] = useState('')
+
+  // Recompute the whole deck in the browser from the revealed seed
+  useEffect(() => {
+    recomputeDeal(fairness)
+      .then((result) => (result ? setDeal(result) : setError('The seed is revealed once the hand is over')))
+      .catch((e) => setError(`Verification failed: ${e.message}`))
+  }, [fairness])
+
+  const seenMismatch = !!deal && (
+    community.some((c, i) => !sameCard(c, deal.board[i])) ||
+    players.some((p) => (p.hand || []).some((c, i) => c && !sameCard(c, deal.holeCards[p.id]?.[i])))
+  )
+
+  return (
+    <div style={{ position: 'fixed', top: 0, left: 0, right: 0, bottom: 0, background: 'rgba(0,0,0,0.7)', display: 'flex', alignItems: 'center', justifyContent: 'center', zIndex: 1000 }}>
+      <div style={{ background: 'linear-gradient(135deg, #0a0a14 0%, #16213e 100%)', padding: 24, borderRadius: 16, border: '3px solid #00BFFF', boxShadow: '0 0 40px rgba(0, 191, 255, 0.6)', maxWidth: 560, width: '90%', maxHeight: '85vh', overflow: 'auto' }}>
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 12 }}>
+          <h2 style={{ margin: 0, color: '#00BFFF', fontSize: 20 }}>🔍 Verify Hand #{fairness.handNumber}</h2>
+          <button
+            onClick={onClose}
+            style={{ background: '#FF6B35', color: 'white', border: 'none', borderRadius: '50%', width: 30, height: 30, cursor: 'pointer', fontWeight: 'bold', fontSize: 18 }}
+          >
+            ✕
+          </button>
+        </div>
+
+        <div style={{ fontSize: 10, color: '#aaa', wordBreak: 'break-all', marginBottom: 12 }}>
+          <div><span style={{ color: '#FFD700', fontWeight: 'bold' }}>Commitment:</span> {fairness.commitment}</div>
+          <div><span style={{ color: '#FFD700', fontWeight: 'bold' }}>Seed:</span> {fairness.seed || 'hidden until the hand is over'}</div>
+        </div>
+
+        {error && <p style={{ color: '#FF6B35', fontSize: 12 }}>{error}</p>}
+        {!deal && !error && <p style={{ color: '#00FFCC', fontSize: 12 }}>Recomputing the deck...</p>}
+
+        {deal && (
+          <>
+            <p style={{ margin: '0 0 12px 0', fontWeight: 'bold', fontSize: 13, color: deal.commitmentValid && !seenMismatch ? '#00FF88' : '#FF6B35' }}>
+              {!deal.commitmentValid
+                ? '✗ The seed does not match the commitment published before the deal'
+                : seenMismatch
+                  ? '✗ The cards dealt do not match the committed deck'
+                  : '✓ The seed matches the commitment and every card you saw matches the deck'}
+            </p>
+
+            <h4 style={{ margin: '0 0 6px 0', color: '#FFD700', fontSize: 12 }}>Board</h4>
+            <div style={{ display: 'flex', gap: 6, marginBottom: 12 }}>
+              {deal.board.slice(0, community.length).map((card, i) => (
+                <CheckedCard key={i} expected={card} seen={community[i]} />
+              ))}
+              {community.length === 0 && <span style={{ fontSize: 11, color: '#aaa' }}>No board cards were dealt</span>}
+            </div>
+
+            <h4 style={{ margin: '0 0 6px 0', color: '#FFD700', fontSize: 12 }}>Hole cards</h4>
+            {fairness.dealtPlayerIds.map((playerId) => {
+              const player = players.find((p) => p.id === playerId)
+              return (
+                <div key={playerId} style={{ display: 'flex', alignItems: 'center', gap: 10, marginBottom: 6 }}>
+                  <span style={{ width: 90, fontSize: 11, color: '#00FFCC', fontWeight: 'bold' }}>{player?.name || 'Left the table'}</span>
+                  {(deal.holeCards[playerId] || []).map((card, i) => (
+                    <CheckedCard key={i} expected={card} seen={player?.hand?.[i]} />
+                  ))}
+                </div>
+              )
+            })}
+            <p style={{ fontSize: 10, color: '#aaa', margin: '10px 0 0 0' }}>
+              ✓ marks a card you saw at the table that matches the recomputed deck.
+            </p>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
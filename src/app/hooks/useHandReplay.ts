@@ -0,0 +1,91 @@
+'use client'
+import { useState, useEffect, useMemo, useCallback } from 'react'
+import { buildReplaySteps, handHistoryUrl, HandHistory, SESSION_TOKEN_HEADER } from '../utils/hand-replay'
+import { SESSION_TOKEN_KEY } from './useWebSocketGame'
+
+// Time each step stays on screen while playing
+const STEP_MS = 1200
+
+/**
+ * Load a recorded hand from the server and step through it
+ * Our session token for the table, if we have one, adds our own hole cards
+ */
+export default function useHandReplay(gameId: string, handNumber: number, initialStep = 0) {
+  const [history, setHistory] = useState<HandHistory | null>(null)
+  const [error, setError] = useState('')
+  const [step, setStep] = useState(initialStep)
+  const [isPlaying, setIsPlaying] = useState(false)
+
+  useEffect(() => {
+    if (!gameId || !Number.isInteger(handNumber) || handNumber < 1) return
+
+    let cancelled = false
+    const sessionToken = localStorage.getItem(SESSION_TOKEN_KEY)
+    fetch(handHistoryUrl(gameId, handNumber), {
+      headers: sessionToken ? { [SESSION_TOKEN_HEADER]: sessionToken } : {},
+    })
+      .then(async (response) => {
+        const body = await response.json()
+        if (!response.ok) throw new Error(body.error || `Request failed (${response.status})`)
+        return body as HandHistory
+      })
+      .then((hand) => {
+        if (cancelled) return
+        setHistory(hand)
+        setError('')
+      })
+      .catch((e: Error) => {
+        if (!cancelled) setError(e.message)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [gameId, handNumber])
+
+  const steps = useMemo(() => (history ? buildReplaySteps(history) : []), [history])
+  const lastStep = Math.max(0, steps.length - 1)
+  const current = steps[Math.min(step, lastStep)] || null
+
+  // Advance one step at a time while playing, stopping on the last one
+  useEffect(() => {
+    if (!isPlaying) return
+    const timer = setTimeout(() => {
+      if (step >= lastStep) {
+        setIsPlaying(false)
+      } else {
+        setStep(step + 1)
+      }
+    }, STEP_MS)
+    return () => clearTimeout(timer)
+  }, [isPlaying, step, lastStep])
+
+  const seek = useCallback((to: number) => {
+    setStep(Math.min(Math.max(0, to), lastStep))
+  }, [lastStep])
+
+  const play = useCallback(() => {
+    // Playing from the end starts the hand over
+    if (step >= lastStep) setStep(0)
+    setIsPlaying(true)
+  }, [step, lastStep])
+
+  const pause = useCallback(() => setIsPlaying(false), [])
+
+  return {
+    history,
+    steps,
+    step: Math.min(step, lastStep),
+    current,
+    error,
+    isLoading: !history && !error,
+    isPlaying,
+    actions: {
+      play,
+      pause,
+      seek,
+      stepForward: () => seek(step + 1),
+      stepBack: () => seek(step - 1),
+    },
+  }
+}
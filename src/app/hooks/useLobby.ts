@@ -0,0 +1,39 @@
+'use client'
+import { useEffect, useState } from 'react'
+import { getWebSocketClient } from '../utils/websocket'
+import type { TableSummary } from '../utils/lobby'
+
+// How often the lobby asks for the table list while it is on screen
+const REFRESH_MS = 5000
+
+// Open tables from the server, kept fresh while enabled
+export default function useLobby(enabled: boolean) {
+  const [tables, setTables] = useState<TableSummary[]>([])
+
+  useEffect(() => {
+    if (!enabled) return
+    const client = getWebSocketClient()
+
+    const handleGameList = (message: { payload: { games: TableSummary[] } }) => {
+      setTables(message.payload.games)
+    }
+
+    // The socket may still be connecting on first render, ask again once it is up
+    const refresh = () => {
+      if (client.isConnected()) client.send('listGames', {})
+    }
+
+    client.on('gameList', handleGameList)
+    client.on('connected', refresh)
+    refresh()
+    const timer = setInterval(refresh, REFRESH_MS)
+
+    return () => {
+      clearInterval(timer)
+      client.off('gameList', handleGameList)
+      client.off('connected', refresh)
+    }
+  }, [enabled])
+
+  return { tables }
+}
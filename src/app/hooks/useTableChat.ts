@@ -0,0 +1,105 @@
+'use client'
+import { useCallback, useEffect, useState } from 'react'
+import { getWebSocketClient } from '../utils/websocket'
+
+// Same list as server/game/table-chat.ts, the server rejects anything else
+export const EMOTES = ['👍', '👏', '😂', '😮', '😢', '😡', '🤔', '😎', '🔥', '💰']
+export const MAX_CHAT_LENGTH = 200
+
+export type ChatMessage = {
+  id: string
+  gameId: string
+  playerId: string
+  name: string
+  walletAddress: string | null
+  kind: 'chat' | 'emote'
+  text: string
+  sentAt: number
+}
+
+export type EmoteBubble = { id: string; emote: string }
+
+// Mutes follow a wallet from table to table, players without one are muted by seat
+const MUTED_KEY = 'poker-muted-wallets'
+const MAX_MESSAGES = 100
+const EMOTE_MS = 3000
+
+export function muteKey(player: { id: string; walletAddress?: string | null }) {
+  return player.walletAddress?.toLowerCase() || player.id
+}
+
+function loadMuted(): string[] {
+  if (typeof window === 'undefined') return []
+  try {
+    return JSON.parse(localStorage.getItem(MUTED_KEY) || '[]')
+  } catch {
+    return []
+  }
+}
+
+// Table chat and emote bubbles for the game we are seated at or watching
+export default function useTableChat(gameId: string, playerId: string) {
+  const [messages, setMessages] = useState<ChatMessage[]>([])
+  const [emotes, setEmotes] = useState<Record<string, EmoteBubble>>({})
+  const [muted, setMuted] = useState<string[]>(loadMuted)
+
+  useEffect(() => {
+    const client = getWebSocketClient()
+
+    const handleChat = (message: { payload: ChatMessage }) => {
+      const chat = message.payload
+      if (muted.includes(muteKey({ id: chat.playerId, walletAddress: chat.walletAddress }))) return
+
+      if (chat.kind === 'chat') {
+        setMessages((m) => [...m, chat].slice(-MAX_MESSAGES))
+        return
+      }
+
+      // A newer emote from the same player replaces the bubble, the old timer then does nothing
+      setEmotes((e) => ({ ...e, [chat.playerId]: { id: chat.id, emote: chat.text } }))
+      setTimeout(() => {
+        setEmotes((e) => {
+          if (e[chat.playerId]?.id !== chat.id) return e
+          const rest = { ...e }
+          delete rest[chat.playerId]
+          return rest
+        })
+      }, EMOTE_MS)
+    }
+
+    client.on('chat', handleChat)
+    return () => {
+      client.off('chat', handleChat)
+    }
+  }, [muted])
+
+  const sendChat = useCallback((text: string) => {
+    if (!gameId || !playerId || !text.trim()) return
+    getWebSocketClient().send('chat', { gameId, playerId, text })
+  }, [gameId, playerId])
+
+  const sendEmote = useCallback((emote: string) => {
+    if (!gameId || !playerId) return
+    getWebSocketClient().send('emote', { gameId, playerId, emote })
+  }, [gameId, playerId])
+
+  // Muting also hides what the player already said
+  const toggleMute = useCallback((player: { id: string; walletAddress?: string | null }) => {
+    const key = muteKey(player)
+    setMuted((current) => {
+      const next = current.includes(key) ? current.filter((k) => k !== key) : [...current, key]
+      localStorage.setItem(MUTED_KEY, JSON.stringify(next))
+      return next
+    })
+  }, [])
+
+  const isMuted = (player: { id: string; walletAddress?: string | null }) => muted.includes(muteKey(player))
+
+  return {
+    // Only the current table's chat, and nothing from muted players
+    messages: messages.filter((m) => m.gameId === gameId && !isMuted({ id: m.playerId, walletAddress: m.walletAddress })),
+    emotes,
+    isMuted,
+    actions: { sendChat, sendEmote, toggleMute },
+  }
+}
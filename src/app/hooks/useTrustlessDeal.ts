@@ -0,0 +1,120 @@
+'use client'
+import { useEffect, useRef, useState } from 'react'
+import { getWebSocketClient } from '../utils/websocket'
+import type { DeckCard } from '../utils/fairness'
+import {
+  generateSigningKey,
+  generateSraKey,
+  keysFor,
+  readHoleCards,
+  relockPerCard,
+  shuffleAndLock,
+  signDealMessage,
+  signedDealPayload,
+  DealData,
+  DealState,
+  DealStep,
+  SraKey,
+} from '../utils/mental-poker'
+
+// Keys for the hand being dealt, they never leave the browser
+type HandKeys = { handNumber: number; shuffleKey: SraKey | null; cardKeys: SraKey[]; sent: Set<string> }
+
+// Take part in trustless deals: shuffle and lock the deck on our turn,
+// publish keys when asked and read our own hole cards
+export default function useTrustlessDeal(gameId: string, playerId: string, enabled: boolean) {
+  const [deal, setDeal] = useState<DealState | null>(null)
+  const [holeCards, setHoleCards] = useState<DeckCard[] | null>(null)
+  const [working, setWorking] = useState(false)
+  const signingKey = useRef<CryptoKey | null>(null)
+  const handKeys = useRef<HandKeys | null>(null)
+
+  // Register a fresh signing key for this seat. The server keeps the old key
+  // while we are dealt into a hand, so try again once the hand is over
+  useEffect(() => {
+    if (!enabled || !gameId || !playerId) return
+    const client = getWebSocketClient()
+    let cancelled = false
+    let unregistered: JsonWebKey | null = null
+
+    const register = () => client.send('registerDealKey', { gameId, playerId, publicKey: unregistered })
+    const handleRegistered = () => {
+      unregistered = null
+    }
+    const handleGameState = (message: { payload: { phase: string } }) => {
+      if (unregistered && (message.payload.phase === 'idle' || message.payload.phase === 'showdown')) register()
+    }
+
+    generateSigningKey().then(({ privateKey, publicKey }) => {
+      if (cancelled) return
+      signingKey.current = privateKey
+      unregistered = publicKey
+      register()
+    })
+
+    client.on('dealKeyRegistered', handleRegistered)
+    client.on('gameState', handleGameState)
+    return () => {
+      cancelled = true
+      client.off('dealKeyRegistered', handleRegistered)
+      client.off('gameState', handleGameState)
+    }
+  }, [enabled, gameId, playerId])
+
+  useEffect(() => {
+    if (!enabled) return
+    const client = getWebSocketClient()
+
+    const send = async (state: DealState, step: DealStep, data: DealData) => {
+      const signature = await signDealMessage(signingKey.current!, signedDealPayload(state.gameId, state.handNumber, step, data))
+      client.send('deal', { gameId: state.gameId, playerId, step, data, signature })
+    }
+
+    const handleDealState = async (message: { payload: DealState }) => {
+      const state = message.payload
+      setDeal(state)
+      if (!signingKey.current || !state.playerIds.includes(playerId)) return
+
+      if (handKeys.current?.handNumber !== state.handNumber) {
+        handKeys.current = { handNumber: state.handNumber, shuffleKey: null, cardKeys: [], sent: new Set() }
+        setHoleCards(null)
+      }
+      const keys = handKeys.current
+      const request = state.request?.required[playerId]
+      // The server sends the deal state again after every message, act on each step once
+      const stepId = state.stage === 'keys'
+        ? `keys:${state.request?.reason}:${request?.join(',')}`
+        : `${state.stage}`
+
+      if (keys.sent.has(stepId)) {
+        // Nothing new for us to send
+      } else if (state.stage === 'shuffle' && state.turnPlayerId === playerId) {
+        keys.sent.add(stepId)
+        setWorking(true)
+        keys.shuffleKey = generateSraKey()
+        await send(state, 'shuffle', shuffleAndLock(state.deck, keys.shuffleKey))
+      } else if (state.stage === 'lock' && state.turnPlayerId === playerId && keys.shuffleKey) {
+        keys.sent.add(stepId)
+        setWorking(true)
+        keys.cardKeys = state.deck.map(() => generateSraKey())
+        await send(state, 'lock', relockPerCard(state.deck, keys.shuffleKey, keys.cardKeys))
+      } else if (state.stage === 'keys' && request && keys.cardKeys.length > 0) {
+        keys.sent.add(stepId)
+        await send(state, 'keys', keysFor(request, keys.cardKeys))
+      }
+      setWorking(false)
+
+      if (keys.cardKeys.length > 0) {
+        const cards = readHoleCards(state, playerId, keys.cardKeys)
+        if (cards && cards.every(Boolean)) setHoleCards(cards as DeckCard[])
+      }
+    }
+
+    client.on('dealState', handleDealState)
+    return () => {
+      client.off('dealState', handleDealState)
+    }
+  }, [enabled, playerId])
+
+  return { deal, holeCards, working }
+}
@@ -2,6 +2,8 @@
 import { useState, useCallback, useEffect } from 'react'
 import { getWebSocketClient } from '../utils/websocket'
 import { signGameAction } from '../config/yellow'
+import type { HandFairness } from '../utils/fairness'
+import type { TurnClock } from '../components/TurnTimer'
 
 type Card = { cardFace: string; suit: string; animationDelay?: number }
 type Player = {
@@ -13,26 +15,111 @@ type Player = {
   folded?: boolean
   isActive?: boolean
   hasDealerChip?: boolean
-  hand?: Card[]
+  raiseClosed?: boolean
+  timeBankMs?: number
+  hand?: (Card | null)[] // null for a face-down card
   avatarURL?: string
   walletAddress?: string
 }
 
-type GamePhase = 'idle' | 'betting1' | 'flop' | 'betting2' | 'turn' | 'betting3' | 'river' | 'betting4' | 'showdown'
+export type GameVariant = 'holdem' | 'plo' | 'shortdeck'
+export type BettingStructure = 'no-limit' | 'pot-limit' | 'fixed-limit'
+
+type TableConfig = {
+  variant: GameVariant
+  bettingStructure: BettingStructure
+  smallBlind: number
+  bigBlind: number
+  ante: number
+  seats: number
+  startingStack: number
+  buyInUsdc: number // Paid into each hand's App Session, 0 for play money
+  chipsPerUsdc: number
+  rebuyPolicy: 'auto' | 'none' // auto tops a busted player back up to the starting stack
+  dealMode: 'server' | 'trustless'
+  actionSeconds: number
+  timeBankSeconds: number
+  timeBankTopUpSeconds: number
+  spectatorDelaySeconds: number
+}
+// Sit-and-go state, mirrors Tournament in server/game/types.ts
+export type BlindLevel = { smallBlind: number; bigBlind: number; ante: number }
+export type TournamentSetup = {
+  startingStack: number
+  levels: BlindLevel[]
+  levelBy: 'hands' | 'minutes'
+  levelLength: number
+  buyIn: number // USDC, 0 for play money
+  payouts: number[] | null
+}
+export type TournamentFinish = { playerId: string; name: string; walletAddress: string | null; position: number; prize: number }
+export type Tournament = {
+  config: TournamentSetup
+  status: 'registering' | 'running' | 'finished'
+  level: number
+  levelStartedAt: number
+  levelStartedHand: number
+  entrants: number
+  prizes: number[]
+  finishes: TournamentFinish[]
+  tournamentId: string | null // Set at the tables of a multi-table tournament
+}
+// A multi-table tournament we registered for, as sent in tournamentState
+export type TournamentRegistration = {
+  tournamentId: string
+  hostId: string
+  registrants: { playerId: string; name: string }[]
+  tables: number // Still in play
+  tournament: Tournament
+}
+type Pot = { amount: number; eligiblePlayerIds: string[] }
+type PotResult = { name: string; amount: number; winners: { id: string; name: string; amount: number }[] }
+type PotWinner = { id: string; name: string; amount: number; chips: number; handType: string; description: string }
+type Winner = {
+  id: string
+  name: string
+  chips: number
+  potWon: number
+  reason: string
+  hand: Card[]
+  handType: string
+  description?: string
+  winners: PotWinner[]
+  pots: PotResult[]
+  allHands?: { id: string; name: string; hand: Card[]; score: number; handType: string; description: string }[]
+}
+
+// Lets a page refresh or a new socket reclaim the same seat
+export const SESSION_TOKEN_KEY = 'poker-session-token'
+
+// dealing, flop, turn, river and reveal wait for the players to open cards in a trustless deal
+type GamePhase = 'idle' | 'dealing' | 'betting1' | 'flop' | 'betting2' | 'turn' | 'betting3' | 'river' | 'betting4' | 'reveal' | 'showdown'
 
 export default function useWebSocketGame() {
   const [state, setState] = useState({
     players: [] as Player[],
     community: [] as Card[],
     pot: 0,
+    pots: [] as Pot[],
     highBet: 0,
+    minRaiseTo: 40,
+    maxRaiseTo: null as number | null, // Pot limit for the player to act, null for no limit
     phase: 'idle' as GamePhase,
     activePlayerIndex: 0,
+    buttonIndex: 0,
+    handNumber: 0,
     minBet: 20,
+    config: null as TableConfig | null,
     actionInProgress: false,
     playerId: '',
-    winner: null as any,
+    winner: null as Winner | null,
     foldWinner: null as any,
+    fairness: null as HandFairness | null, // Deck commitment, with the seed once the hand is over
+    turnClock: null as TurnClock | null, // Time left for the player to act
+    tournament: null as Tournament | null, // Sit-and-go levels and standings, null for a cash game
+    registration: null as TournamentRegistration | null, // Multi-table tournament we entered
+    isSpectator: false, // Watching without a seat
+    spectatorCount: 0,
     yellowSessionId: null as string | null, // Yellow Network session ID
   })
 
@@ -61,28 +148,78 @@ export default function useWebSocketGame() {
         players: data.payload?.players || [],
         community: data.payload?.community || [],
         pot: data.payload?.pot || 0,
+        pots: data.payload?.pots || [],
         highBet: data.payload?.highBet || 0,
+        minRaiseTo: data.payload?.minRaiseTo || 0,
+        maxRaiseTo: data.payload?.maxRaiseTo ?? null,
         phase: data.payload?.phase || 'idle',
         activePlayerIndex: data.payload?.activePlayerIndex || 0,
+        buttonIndex: data.payload?.buttonIndex || 0,
+        handNumber: data.payload?.handNumber || 0,
+        minBet: data.payload?.minBet || 20,
+        config: data.payload?.config || null,
         actionInProgress: data.payload?.actionInProgress || false,
         winner: data.payload?.winner || null,
         foldWinner: data.payload?.foldWinner || null,
+        fairness: data.payload?.fairness || null,
+        turnClock: data.payload?.turnClock ? { ...data.payload.turnClock, receivedAt: Date.now() } : null,
+        spectatorCount: data.payload?.spectatorCount ?? s.spectatorCount,
+        tournament: data.payload?.tournament || null,
       }))
     }
 
     const handleGameCreated = (data: any) => {
       console.log('Game created event received:', data)
       setGameId(data.payload?.gameId || '')
+      setState((s) => ({ ...s, playerId: data.payload?.playerId || '', isSpectator: false }))
+      if (data.payload?.sessionToken) localStorage.setItem(SESSION_TOKEN_KEY, data.payload.sessionToken)
+    }
+
+    const handleResumed = (data: { payload?: { gameId?: string; playerId?: string } }) => {
+      console.log('Resumed seat:', data)
+      setGameId(data.payload?.gameId || '')
       setState((s) => ({ ...s, playerId: data.payload?.playerId || '' }))
     }
 
+    const handleTournamentRegistered = (data: { payload?: { playerId?: string; sessionToken?: string } }) => {
+      setState((s) => ({ ...s, playerId: data.payload?.playerId || '', isSpectator: false }))
+      if (data.payload?.sessionToken) localStorage.setItem(SESSION_TOKEN_KEY, data.payload.sessionToken)
+    }
+
+    const handleTournamentState = (data: { payload?: TournamentRegistration }) => {
+      setState((s) => ({ ...s, registration: data.payload || null }))
+    }
+
+    // The tournament director seated or moved us, same socket and session at the new table
+    const handleTableChanged = (data: { payload?: { gameId?: string; playerId?: string } }) => {
+      setGameId(data.payload?.gameId || '')
+      setState((s) => ({ ...s, playerId: data.payload?.playerId || s.playerId, isSpectator: false }))
+    }
+
+    const handleWatching = (data: { payload?: { gameId?: string } }) => {
+      setGameId(data.payload?.gameId || '')
+      setState((s) => ({ ...s, playerId: '', isSpectator: true }))
+    }
+
+    const handleSpectatorCount = (data: { payload?: { count?: number } }) => {
+      setState((s) => ({ ...s, spectatorCount: data.payload?.count || 0 }))
+    }
+
+    const handleResumeFailed = (data: { payload?: { message?: string } }) => {
+      localStorage.removeItem(SESSION_TOKEN_KEY)
+      setError(data.payload?.message || 'Could not rejoin the game')
+    }
+
     const handleError = (data: any) => {
       setError(data.payload?.message || data.message || 'Game error occurred')
     }
 
+    // Every new socket, including reconnects, asks for our old seat back
     const handleConnected = () => {
       setConnectionState('connected')
       setError('')
+      const sessionToken = localStorage.getItem(SESSION_TOKEN_KEY)
+      if (sessionToken) client.send('resume', { sessionToken })
     }
 
     const handleDisconnected = () => {
@@ -96,6 +233,13 @@ export default function useWebSocketGame() {
 
     client.on('gameState', handleGameState)
     client.on('gameCreated', handleGameCreated)
+    client.on('resumed', handleResumed)
+    client.on('resumeFailed', handleResumeFailed)
+    client.on('watching', handleWatching)
+    client.on('tournamentRegistered', handleTournamentRegistered)
+    client.on('tournamentState', handleTournamentState)
+    client.on('tableChanged', handleTableChanged)
+    client.on('spectatorCount', handleSpectatorCount)
     client.on('error', handleError)
     client.on('connected', handleConnected)
     client.on('disconnected', handleDisconnected)
@@ -104,6 +248,13 @@ export default function useWebSocketGame() {
     return () => {
       client.off('gameState', handleGameState)
       client.off('gameCreated', handleGameCreated)
+      client.off('resumed', handleResumed)
+      client.off('resumeFailed', handleResumeFailed)
+      client.off('watching', handleWatching)
+      client.off('tournamentRegistered', handleTournamentRegistered)
+      client.off('tournamentState', handleTournamentState)
+      client.off('tableChanged', handleTableChanged)
+      client.off('spectatorCount', handleSpectatorCount)
       client.off('error', handleError)
       client.off('connected', handleConnected)
       client.off('disconnected', handleDisconnected)
@@ -119,12 +270,13 @@ export default function useWebSocketGame() {
     })
   }, [])
 
-  const createOnlineGame = useCallback((playerName: string, walletAddress?: string) => {
+  const createOnlineGame = useCallback((playerName: string, walletAddress?: string, config?: Partial<TableConfig> & { tournament?: Partial<TournamentSetup> }) => {
     const client = getWebSocketClient()
     client.send('createGame', {
       playerName,
       walletAddress, // Send wallet address to server
       gameType: 'online',
+      ...config, // Blinds, ante and seat count, server defaults apply when omitted; tournament makes it a sit-and-go
     })
   }, [])
 
@@ -137,6 +289,44 @@ export default function useWebSocketGame() {
     })
   }, [])
 
+  // Host a multi-table tournament, the host registers first
+  const createTournament = useCallback((playerName: string, walletAddress?: string, config?: Partial<TableConfig> & { tournament?: Partial<TournamentSetup> }) => {
+    const client = getWebSocketClient()
+    client.send('createTournament', {
+      playerName,
+      walletAddress,
+      ...config,
+    })
+  }, [])
+
+  const registerTournament = useCallback((tournamentId: string, playerName: string, walletAddress?: string) => {
+    const client = getWebSocketClient()
+    client.send('registerTournament', {
+      tournamentId,
+      playerName,
+      walletAddress,
+    })
+  }, [])
+
+  // The director seats everyone across the tables and deals from here
+  const startTournament = useCallback(() => {
+    const client = getWebSocketClient()
+    if (!state.registration) {
+      setError('No tournament to start')
+      return
+    }
+    client.send('startTournament', {
+      tournamentId: state.registration.tournamentId,
+      playerId: state.playerId,
+    })
+  }, [state.registration, state.playerId])
+
+  // Watch a table without taking a seat
+  const watchGame = useCallback((gameId: string) => {
+    const client = getWebSocketClient()
+    client.send('watchGame', { gameId })
+  }, [])
+
   const fold = useCallback(() => {
     const client = getWebSocketClient()
     if (!gameId) {
@@ -163,6 +353,20 @@ export default function useWebSocketGame() {
     })
   }, [gameId, state.playerId])
 
+  const call = useCallback(() => {
+    const client = getWebSocketClient()
+    if (!gameId) {
+      setError('No active game')
+      return
+    }
+    client.send('action', {
+      gameId,
+      playerId: state.playerId,
+      action: 'call',
+    })
+  }, [gameId, state.playerId])
+
+  // Open the betting for this round
   const bet = useCallback((amount: number) => {
     const client = getWebSocketClient()
     if (!gameId) {
@@ -177,6 +381,34 @@ export default function useWebSocketGame() {
     })
   }, [gameId, state.playerId])
 
+  // Raise to a total for this round, not by an increment
+  const raise = useCallback((amount: number) => {
+    const client = getWebSocketClient()
+    if (!gameId) {
+      setError('No active game')
+      return
+    }
+    client.send('action', {
+      gameId,
+      playerId: state.playerId,
+      action: 'raise',
+      amount,
+    })
+  }, [gameId, state.playerId])
+
+  const allIn = useCallback(() => {
+    const client = getWebSocketClient()
+    if (!gameId) {
+      setError('No active game')
+      return
+    }
+    client.send('action', {
+      gameId,
+      playerId: state.playerId,
+      action: 'allIn',
+    })
+  }, [gameId, state.playerId])
+
   const startGame = useCallback(() => {
     const client = getWebSocketClient()
     if (!gameId) {
@@ -197,28 +429,44 @@ export default function useWebSocketGame() {
     }
     client.send('action', {
       gameId,
+      playerId: state.playerId,
       action: 'nextRound',
     })
-  }, [gameId])
+  }, [gameId, state.playerId])
 
+  // Leaving the table forgets the seat, or stops watching
   const reset = useCallback(() => {
+    if (state.isSpectator && gameId) getWebSocketClient().send('unwatchGame', { gameId })
+    localStorage.removeItem(SESSION_TOKEN_KEY)
     setGameId('')
     setState({
       players: [],
       community: [],
       pot: 0,
+      pots: [],
       highBet: 0,
+      minRaiseTo: 40,
+      maxRaiseTo: null,
       phase: 'idle',
       activePlayerIndex: 0,
+      buttonIndex: 0,
+      handNumber: 0,
       minBet: 20,
+      config: null,
       actionInProgress: false,
       playerId: '',
       winner: null,
       foldWinner: null,
+      fairness: null,
+      turnClock: null,
+      tournament: null,
+      registration: null,
+      isSpectator: false,
+      spectatorCount: 0,
       yellowSessionId: null,
     })
     setError('')
-  }, [])
+  }, [state.isSpectator, gameId])
 
   return {
     state,
@@ -230,9 +478,16 @@ export default function useWebSocketGame() {
       createLocalGame,
       createOnlineGame,
       joinGame,
+      createTournament,
+      registerTournament,
+      startTournament,
+      watchGame,
       fold,
       check,
+      call,
       bet,
+      raise,
+      allIn,
       startGame,
       nextRound,
     },
@@ -2,14 +2,24 @@
 import React, { useState, useEffect, useRef } from 'react'
 import Table from './components/Table'
 import Card from './components/Card'
-import useWebSocketGame from './hooks/useWebSocketGame'
+import useWebSocketGame, { BettingStructure, GameVariant } from './hooks/useWebSocketGame'
+import useTrustlessDeal from './hooks/useTrustlessDeal'
+import useTableChat from './hooks/useTableChat'
+import useLobby from './hooks/useLobby'
 import './poker.css'
 import { soundEffects } from './utils/sounds'
 import { injectAnimationStyles, createFloatingText, animateButton } from './utils/animations'
 import { ConnectButton } from '@rainbow-me/rainbowkit'
 import { useAccount } from 'wagmi'
 import YellowArea from './components/YellowArea'
+import VerifyHand from './components/VerifyHand'
+import ChatPanel from './components/ChatPanel'
+import TournamentPanel from './components/TournamentPanel'
+import TournamentRegistration from './components/TournamentRegistration'
+import Lobby from './components/Lobby'
 import { useDisplayName } from './hooks/useBasename'
+import { replayPageUrl } from './utils/hand-replay'
+import { STRUCTURE_NAMES, VARIANT_NAMES } from './utils/lobby'
 
 export default function PokerPage() {
   const { state, connectionState, gameId, error, actions } = useWebSocketGame()
@@ -18,33 +28,58 @@ export default function PokerPage() {
   const [gameMode, setGameMode] = useState<'menu' | 'playing'>('menu')
   const [joinGameId, setJoinGameId] = useState('')
   const [playerName, setPlayerName] = useState('Player')
+  const [tableConfig, setTableConfig] = useState({
+    variant: 'holdem' as GameVariant,
+    bettingStructure: 'no-limit' as BettingStructure,
+    smallBlind: 10,
+    bigBlind: 20,
+    ante: 0,
+    seats: 6,
+    startingStack: 1000,
+    buyInUsdc: 0.1,
+    chipsPerUsdc: 10_000,
+    rebuyPolicy: 'auto' as 'auto' | 'none',
+    actionSeconds: 30,
+    timeBankSeconds: 60,
+    timeBankTopUpSeconds: 10,
+    spectatorDelaySeconds: 0,
+    dealMode: 'server' as 'server' | 'trustless',
+  })
+  // Sent as the tournament setup when the table is hosted as a sit-and-go
+  const [sitAndGo, setSitAndGo] = useState({
+    enabled: false,
+    startingStack: 1500,
+    levelBy: 'hands' as 'hands' | 'minutes',
+    levelLength: 10,
+    buyIn: 0,
+  })
   const [isNextRoundHovered, setIsNextRoundHovered] = useState(false)
   const [isMuted, setIsMuted] = useState(false)
   const [raiseAmount, setRaiseAmount] = useState<number>(10)
   const [showRaiseModal, setShowRaiseModal] = useState(false)
+  const [showVerifyHand, setShowVerifyHand] = useState(false)
   const callButtonRef = useRef<HTMLButtonElement>(null)
   const foldButtonRef = useRef<HTMLButtonElement>(null)
   const startButtonRef = useRef<HTMLButtonElement>(null)
   const nextRoundButtonRef = useRef<HTMLButtonElement>(null)
+  const isTrustless = state.config?.dealMode === 'trustless'
+  const { deal, holeCards, working: isDealing } = useTrustlessDeal(gameId, state.playerId, isTrustless && !state.isSpectator)
+  const chat = useTableChat(gameId, state.playerId)
+  const { tables } = useLobby(gameMode === 'menu' && !gameId)
 
   // Initialize animations on mount
   useEffect(() => {
     injectAnimationStyles()
   }, [])
-
   // Wrapped action handlers with animations and sounds
   const handleCheck = () => {
     // If there's a bet to match, this becomes a "Call"
-    if (state.highBet > 0) {
-      const currentPlayer = state.players[state.activePlayerIndex]
-      const amountToCall = state.highBet - (currentPlayer?.roundBet || 0)
-      if (amountToCall > 0) {
-        soundEffects.playCall()
-        if (callButtonRef.current) animateButton(callButtonRef.current, 'action-bet')
-        createFloatingText(`💰 CALL ${amountToCall}`, window.innerWidth / 2, window.innerHeight / 2, '#00FFCC')
-        actions.bet(amountToCall)
-        return
-      }
+    if (amountToCall > 0) {
+      soundEffects.playCall()
+      if (callButtonRef.current) animateButton(callButtonRef.current, 'action-bet')
+      createFloatingText(`💰 CALL ${amountToCall}`, window.innerWidth / 2, window.innerHeight / 2, '#00FFCC')
+      actions.call()
+      return
     }
 
     // Otherwise it's a "Check"
@@ -64,14 +99,19 @@ export default function PokerPage() {
     actions.fold()
   }
 
+  // amount is the total to bet or raise to this round
   const handleBet = (amount: number) => {
     soundEffects.playBet()
     if (callButtonRef.current) animateButton(callButtonRef.current, 'action-bet')
+    const isAllIn = amount >= stackRaiseTo
+    const label = isAllIn ? 'ALL-IN' : state.highBet > 0 ? `RAISE TO ${amount}` : `BET ${amount}`
     const playerPos = state.players[state.activePlayerIndex]
     if (playerPos) {
-      createFloatingText(`💰 BET ${amount}`, window.innerWidth / 2, window.innerHeight / 2, '#00FF88')
+      createFloatingText(`💰 ${label}`, window.innerWidth / 2, window.innerHeight / 2, '#00FF88')
     }
-    actions.bet(amount)
+    if (isAllIn) actions.allIn()
+    else if (state.highBet > 0) actions.raise(amount)
+    else actions.bet(amount)
   }
 
   const handleStartGame = () => {
@@ -88,12 +128,36 @@ export default function PokerPage() {
   }
 
 
-  const canAct = state.phase !== 'idle' && state.phase !== 'showdown' && !state.actionInProgress
+  const canAct = state.phase.startsWith('betting') && !state.actionInProgress
+  const isWaitingForCards = ['dealing', 'flop', 'turn', 'river', 'reveal'].includes(state.phase)
+  // The current hand is only recorded once it is over
+  const lastFinishedHand = state.phase === 'idle' || state.phase === 'showdown' ? state.handNumber : state.handNumber - 1
+  // In a trustless deal the server never sees our hole cards, we open them ourselves
+  const tableState = {
+    ...state,
+    players: holeCards
+      ? state.players.map((p) => (p.id === state.playerId && p.hand?.every((c) => !c) ? { ...p, hand: holeCards.map((c) => ({ ...c, cardFace: c.rank })) } : p))
+      : state.players,
+    emotes: chat.emotes,
+  }
   const isPlayerTurn = state.players.length > 0 && state.players[state.activePlayerIndex]?.id === state.playerId
   const currentPlayer = state.players.find(p => p.id === state.playerId)
   const isPlayerAllIn = currentPlayer && currentPlayer.chips === 0
+  const amountToCall = Math.min(Math.max(0, state.highBet - (currentPlayer?.roundBet || 0)), currentPlayer?.chips || 0)
+  // Raise sizes are totals for the round: from the minimum raise up to all-in
+  const stackRaiseTo = (currentPlayer?.roundBet || 0) + (currentPlayer?.chips || 0)
+  // Pot-limit and fixed-limit tables cap the raise below the stack
+  const maxRaiseTo = Math.min(stackRaiseTo, state.maxRaiseTo ?? stackRaiseTo)
+  // Fixed-limit bets and raises come in one size, so there is nothing to pick
+  const isFixedLimit = state.config?.bettingStructure === 'fixed-limit'
+  const minRaiseTo = Math.min(state.minRaiseTo, maxRaiseTo)
+  const canRaise = !!currentPlayer && !currentPlayer.raiseClosed && maxRaiseTo > state.highBet
+  const isChop = (state.winner?.winners?.length ?? 0) > 1
+  // A finished sit-and-go deals no more hands, and a multi-table tournament's director deals every hand itself
+  const canDealNextHand = state.tournament?.status !== 'finished' && !state.tournament?.tournamentId
 
-  if (gameMode === 'menu') {
+  // A stored session that resumes our seat goes straight back to the table
+  if (gameMode === 'menu' && !gameId) {
     return (
       <div className="poker-table--wrapper" style={{ display: 'flex', alignItems: 'center', justifyContent: 'center', flexDirection: 'column', gap: 10, background: 'linear-gradient(135deg, #0F0F0F 0%, #1a1a2e 50%, #16213e 100%)' }}>
         <div style={{ background: 'linear-gradient(135deg, #0a0a14 0%, #16213e 100%)', padding: 30, borderRadius: 16, color: 'white', textAlign: 'center', maxWidth: 480, border: '3px solid #FFD700', boxShadow: '0 0 50px rgba(255, 215, 0, 0.6), 0 0 30px rgba(255, 107, 107, 0.3)', maxHeight: '95vh', overflowY: 'auto' }}>
@@ -151,13 +215,159 @@ export default function PokerPage() {
           </div>
 
           <div style={{ display: 'flex', flexDirection: 'column', gap: 10 }}>
+            {/* Lobby */}
+            <Lobby
+              tables={tables}
+              canJoin={isConnected && connectionState === 'connected' && !!playerName.trim()}
+              onJoin={(id) => {
+                actions.joinGame(id, playerName, address)
+                setGameMode('playing')
+              }}
+              onWatch={(id) => {
+                actions.watchGame(id)
+                setGameMode('playing')
+              }}
+            />
+
             {/* Host Mode */}
             <div style={{ padding: 12, background: 'linear-gradient(135deg, rgba(76, 175, 80, 0.3) 0%, rgba(0, 255, 136, 0.2) 100%)', borderRadius: 8, border: '2px solid #00FF88' }}>
               <h3 style={{ margin: '0 0 6px 0', color: '#00FF88', fontSize: 13, textShadow: '0 0 10px rgba(0, 255, 136, 0.8)' }}>🏠 Host a Game</h3>
               <p style={{ fontSize: 10, color: '#00FFCC', margin: '0 0 8px 0' }}>Create a new game and share the ID with other players</p>
+              <label style={{ display: 'flex', alignItems: 'center', gap: 8, fontSize: 10, color: '#00FF88', fontWeight: 'bold', marginBottom: 8 }}>
+                GAME
+                <select
+                  value={tableConfig.variant}
+                  onChange={(e) => {
+                    const variant = e.target.value as GameVariant
+                    // Omaha is usually played pot-limit, everything else no-limit
+                    setTableConfig({ ...tableConfig, variant, bettingStructure: variant === 'plo' ? 'pot-limit' : 'no-limit' })
+                  }}
+                  style={{ flex: 1, padding: 6, borderRadius: 6, border: '2px solid #00FF88', background: '#0a0a14', color: '#00FFCC', fontSize: 11 }}
+                >
+                  <option value="holdem">Hold&apos;em</option>
+                  <option value="plo">Omaha (4 cards)</option>
+                  <option value="shortdeck">6+ Short Deck (no 2-5)</option>
+                </select>
+                <select
+                  value={tableConfig.bettingStructure}
+                  onChange={(e) => setTableConfig({ ...tableConfig, bettingStructure: e.target.value as BettingStructure })}
+                  title="Betting structure"
+                  style={{ flex: 1, padding: 6, borderRadius: 6, border: '2px solid #00FF88', background: '#0a0a14', color: '#00FFCC', fontSize: 11 }}
+                >
+                  <option value="no-limit">No Limit</option>
+                  <option value="pot-limit">Pot Limit</option>
+                  <option value="fixed-limit">Fixed Limit (BB/2BB, 4-bet cap)</option>
+                </select>
+              </label>
+              {([
+                [['smallBlind', 'SB'], ['bigBlind', 'BB'], ['ante', 'ANTE'], ['seats', 'SEATS']],
+                [['actionSeconds', 'SHOT CLOCK (s)'], ['timeBankSeconds', 'TIME BANK (s)'], ['timeBankTopUpSeconds', 'TOP-UP / HAND (s)'], ['spectatorDelaySeconds', 'WATCH DELAY (s)']],
+              ] as const).map((row, r) => (
+                <div key={r} style={{ display: 'flex', gap: 8, marginBottom: 8 }}>
+                  {row.map(([key, label]) => (
+                    <label key={key} style={{ flex: 1, fontSize: 10, color: '#00FF88', fontWeight: 'bold', textAlign: 'left' }}>
+                      {label}
+                      <input
+                        type="number"
+                        min={0}
+                        max={key === 'seats' ? 9 : undefined}
+                        value={tableConfig[key]}
+                        onChange={(e) => setTableConfig({ ...tableConfig, [key]: Math.max(0, Math.floor(Number(e.target.value))) })}
+                        style={{ width: '100%', padding: 6, borderRadius: 6, border: '2px solid #00FF88', background: '#0a0a14', color: '#00FFCC', boxSizing: 'border-box', fontSize: 11 }}
+                      />
+                    </label>
+                  ))}
+                </div>
+              ))}
+              {/* A sit-and-go brings its own stack and buy-in, and never rebuys */}
+              {!sitAndGo.enabled && (
+                <div style={{ display: 'flex', gap: 8, marginBottom: 8 }}>
+                  {([['startingStack', 'STACK', 1], ['buyInUsdc', 'BUY-IN (USDC)', 0.01], ['chipsPerUsdc', 'CHIPS / USDC', 1]] as const).map(([key, label, step]) => (
+                    <label key={key} style={{ flex: 1, fontSize: 10, color: '#00FF88', fontWeight: 'bold', textAlign: 'left' }}>
+                      {label}
+                      <input
+                        type="number"
+                        min={key === 'buyInUsdc' ? 0 : 1}
+                        step={step}
+                        value={tableConfig[key]}
+                        onChange={(e) => {
+                          const value = Math.max(0, Number(e.target.value))
+                          const next = { ...tableConfig, [key]: key === 'buyInUsdc' ? value : Math.floor(value) }
+                          // The stack is what the buy-in pays for: the rate follows the stack and buy-in, the stack follows the rate
+                          if (next.buyInUsdc > 0) {
+                            if (key === 'chipsPerUsdc') next.startingStack = Math.round(next.buyInUsdc * next.chipsPerUsdc)
+                            else next.chipsPerUsdc = Math.round(next.startingStack / next.buyInUsdc)
+                          }
+                          setTableConfig(next)
+                        }}
+                        style={{ width: '100%', padding: 6, borderRadius: 6, border: '2px solid #00FF88', background: '#0a0a14', color: '#00FFCC', boxSizing: 'border-box', fontSize: 11 }}
+                      />
+                    </label>
+                  ))}
+                  <label style={{ flex: 1, fontSize: 10, color: '#00FF88', fontWeight: 'bold', textAlign: 'left' }}>
+                    REBUY
+                    <select
+                      value={tableConfig.rebuyPolicy}
+                      onChange={(e) => setTableConfig({ ...tableConfig, rebuyPolicy: e.target.value as 'auto' | 'none' })}
+                      style={{ width: '100%', padding: 6, borderRadius: 6, border: '2px solid #00FF88', background: '#0a0a14', color: '#00FFCC', boxSizing: 'border-box', fontSize: 11 }}
+                    >
+                      <option value="auto">Automatic</option>
+                      <option value="none">None</option>
+                    </select>
+                  </label>
+                </div>
+              )}
+              <label style={{ display: 'flex', alignItems: 'center', gap: 6, fontSize: 10, color: '#00FF88', fontWeight: 'bold', marginBottom: 8, cursor: 'pointer' }}>
+                <input
+                  type="checkbox"
+                  checked={tableConfig.dealMode === 'trustless'}
+                  onChange={(e) => setTableConfig({ ...tableConfig, dealMode: e.target.checked ? 'trustless' : 'server' })}
+                />
+                🔐 Trustless deal (players shuffle, the server never sees hole cards)
+              </label>
+              <label style={{ display: 'flex', alignItems: 'center', gap: 6, fontSize: 10, color: '#00FF88', fontWeight: 'bold', marginBottom: 8, cursor: 'pointer' }}>
+                <input
+                  type="checkbox"
+                  checked={sitAndGo.enabled}
+                  onChange={(e) => setSitAndGo({ ...sitAndGo, enabled: e.target.checked })}
+                />
+                🏆 Sit &amp; Go (blinds rise on a schedule, busted players are out)
+              </label>
+              {sitAndGo.enabled && (
+                <div style={{ display: 'flex', gap: 8, marginBottom: 8 }}>
+                  {([['startingStack', 'STACK', 1], ['levelLength', 'LEVEL LENGTH', 1], ['buyIn', 'BUY-IN (USDC)', 0.01]] as const).map(([key, label, step]) => (
+                    <label key={key} style={{ flex: 1, fontSize: 10, color: '#00FF88', fontWeight: 'bold', textAlign: 'left' }}>
+                      {label}
+                      <input
+                        type="number"
+                        min={0}
+                        step={step}
+                        value={sitAndGo[key]}
+                        onChange={(e) => {
+                          const value = Math.max(0, Number(e.target.value))
+                          setSitAndGo({ ...sitAndGo, [key]: key === 'buyIn' ? value : Math.floor(value) })
+                        }}
+                        style={{ width: '100%', padding: 6, borderRadius: 6, border: '2px solid #00FF88', background: '#0a0a14', color: '#00FFCC', boxSizing: 'border-box', fontSize: 11 }}
+                      />
+                    </label>
+                  ))}
+                  <label style={{ flex: 1, fontSize: 10, color: '#00FF88', fontWeight: 'bold', textAlign: 'left' }}>
+                    LEVEL BY
+                    <select
+                      value={sitAndGo.levelBy}
+                      onChange={(e) => setSitAndGo({ ...sitAndGo, levelBy: e.target.value as 'hands' | 'minutes' })}
+                      style={{ width: '100%', padding: 6, borderRadius: 6, border: '2px solid #00FF88', background: '#0a0a14', color: '#00FFCC', boxSizing: 'border-box', fontSize: 11 }}
+                    >
+                      <option value="hands">Hands</option>
+                      <option value="minutes">Minutes</option>
+                    </select>
+                  </label>
+                </div>
+              )}
               <button
                 onClick={() => {
-                  actions.createOnlineGame(playerName, address)
+                  const { enabled, ...tournament } = sitAndGo
+                  actions.createOnlineGame(playerName, address, { ...tableConfig, tournament: enabled ? tournament : undefined })
                   setGameMode('playing')
                 }}
                 disabled={!isConnected || connectionState !== 'connected' || !playerName.trim()}
@@ -177,8 +387,30 @@ export default function PokerPage() {
               >
                 {!isConnected ? '🔒 Connect Wallet First' : 'Create Online Game'}
               </button>
+              {sitAndGo.enabled && (
+                <button
+                  onClick={() => {
+                    const { startingStack, levelLength, buyIn } = sitAndGo
+                    // Blinds move up together at every table, so multi-table levels run on the clock
+                    actions.createTournament(playerName, address, { ...tableConfig, tournament: { startingStack, levelLength, buyIn, levelBy: 'minutes' } })
+                  }}
+                  disabled={!isConnected || connectionState !== 'connected' || !playerName.trim() || !!state.registration}
+                  title="Seats are the table size, players are spread over as many tables as it takes"
+                  style={{ width: '100%', marginTop: 8, padding: 8, background: 'rgba(255, 165, 0, 0.2)', color: '#FFA500', border: '2px solid #FFA500', borderRadius: 6, cursor: isConnected && connectionState === 'connected' && playerName.trim() && !state.registration ? 'pointer' : 'not-allowed', fontWeight: 'bold', fontSize: 11 }}
+                >
+                  🏟 Host as a Multi-Table Tournament (levels in minutes)
+                </button>
+              )}
             </div>
 
+            <TournamentRegistration
+              registration={state.registration}
+              playerId={state.playerId}
+              canRegister={isConnected && connectionState === 'connected' && !!playerName.trim()}
+              onRegister={(id) => actions.registerTournament(id, playerName, address)}
+              onStart={actions.startTournament}
+            />
+
             {/* Join Mode */}
             <div style={{ padding: 12, background: 'linear-gradient(135deg, rgba(33, 150, 243, 0.3) 0%, rgba(0, 188, 212, 0.2) 100%)', borderRadius: 8, border: '2px solid #00BFFF' }}>
               <h3 style={{ margin: '0 0 6px 0', color: '#00BFFF', fontSize: 13, textShadow: '0 0 10px rgba(0, 191, 255, 0.8)' }}>👥 Join a Game</h3>
@@ -212,6 +444,26 @@ export default function PokerPage() {
                 >
                   {!isConnected ? '🔒' : 'Join'}
                 </button>
+                <button
+                  onClick={() => {
+                    actions.watchGame(joinGameId)
+                    setGameMode('playing')
+                  }}
+                  disabled={!joinGameId.trim() || connectionState !== 'connected'}
+                  title="Watch without taking a seat"
+                  style={{
+                    padding: '8px 12px',
+                    background: connectionState === 'connected' && joinGameId.trim() ? 'rgba(0, 191, 255, 0.2)' : '#555',
+                    color: connectionState === 'connected' && joinGameId.trim() ? '#00FFFF' : '#fff',
+                    border: '2px solid #00BFFF',
+                    borderRadius: 6,
+                    cursor: connectionState === 'connected' && joinGameId.trim() ? 'pointer' : 'not-allowed',
+                    fontWeight: 'bold',
+                    fontSize: 11,
+                  }}
+                >
+                  👁 Watch
+                </button>
               </div>
             </div>
 
@@ -264,15 +516,79 @@ export default function PokerPage() {
               <span style={{ color: '#FF69B4', fontWeight: 'bold', fontSize: 11 }}>Phase:</span>
               <span style={{ color: '#FFED4E', fontWeight: 'bold', fontSize: 11 }}>{state.phase}</span>
             </div>
+            {state.handNumber > 0 && (
+              <div style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+                <span style={{ color: '#FF69B4', fontWeight: 'bold', fontSize: 11 }}>Hand:</span>
+                <span style={{ color: '#FFED4E', fontWeight: 'bold', fontSize: 11 }}>#{state.handNumber}</span>
+                {lastFinishedHand > 0 && (
+                  <a
+                    href={replayPageUrl(gameId, lastFinishedHand)}
+                    target="_blank"
+                    rel="noreferrer"
+                    title={`Replay hand #${lastFinishedHand}`}
+                    style={{ padding: '2px 8px', background: 'rgba(0,191,255,0.2)', color: '#00BFFF', border: '1px solid #00BFFF', borderRadius: 4, fontWeight: 'bold', fontSize: 10, textDecoration: 'none' }}
+                  >
+                    ⏪ Replay
+                  </a>
+                )}
+              </div>
+            )}
+            {state.fairness && (
+              <div style={{ display: 'flex', alignItems: 'center', gap: 6 }} title={`Deck commitment: ${state.fairness.commitment}`}>
+                <span style={{ color: '#00BFFF', fontWeight: 'bold', fontSize: 11 }}>Deck:</span>
+                <span style={{ color: '#FFED4E', fontFamily: 'monospace', fontSize: 11 }}>{state.fairness.commitment.slice(0, 8)}…</span>
+                {state.fairness.seed && (
+                  <button
+                    onClick={() => setShowVerifyHand(true)}
+                    style={{ padding: '2px 8px', background: 'rgba(0,191,255,0.2)', color: '#00BFFF', border: '1px solid #00BFFF', borderRadius: 4, cursor: 'pointer', fontWeight: 'bold', fontSize: 10 }}
+                  >
+                    🔍 Verify hand
+                  </button>
+                )}
+              </div>
+            )}
+            {isTrustless && (
+              <div style={{ display: 'flex', alignItems: 'center', gap: 6 }} title={deal ? `Transcript: ${deal.transcriptLength} messages, head ${deal.transcriptHash}` : undefined}>
+                <span style={{ color: '#00BFFF', fontWeight: 'bold', fontSize: 11 }}>Deal:</span>
+                <span style={{ color: '#FFED4E', fontWeight: 'bold', fontSize: 11 }}>
+                  {isDealing ? 'shuffling…' : !deal || !isWaitingForCards ? 'trustless' : deal.stage === 'keys' ? `opening ${deal.request?.reason || 'cards'}` : `${deal.stage} (${state.players.find((p) => p.id === deal.turnPlayerId)?.name || '…'})`}
+                </span>
+              </div>
+            )}
+            {state.config && (
+              <div style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+                <span style={{ color: '#FFD700', fontWeight: 'bold', fontSize: 11 }}>Blinds:</span>
+                <span style={{ color: '#FFED4E', fontWeight: 'bold', fontSize: 11 }}>
+                  {STRUCTURE_NAMES[state.config.bettingStructure] || ''} {VARIANT_NAMES[state.config.variant] || ''} {state.config.smallBlind}/{state.config.bigBlind}{state.config.ante > 0 ? ` (ante ${state.config.ante})` : ''}
+                </span>
+              </div>
+            )}
+            {state.config && (
+              <div style={{ display: 'flex', alignItems: 'center', gap: 6 }} title={state.tournament ? undefined : `${state.config.chipsPerUsdc} chips to 1 USDC at settlement`}>
+                <span style={{ color: '#FFD700', fontWeight: 'bold', fontSize: 11 }}>Stack:</span>
+                <span style={{ color: '#FFED4E', fontWeight: 'bold', fontSize: 11 }}>
+                  {state.config.startingStack}
+                  {!state.tournament && `, ${state.config.buyInUsdc > 0 ? `${state.config.buyInUsdc} USDC a hand` : 'play money'}, ${state.config.rebuyPolicy === 'auto' ? 'rebuys' : 'no rebuys'}`}
+                </span>
+              </div>
+            )}
             <div style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
               <span style={{ color: '#00FF88', fontWeight: 'bold', fontSize: 11 }}>Pot:</span>
               <span style={{ color: '#00FFCC', fontWeight: 'bold', fontSize: 11 }}>{state.pot} 💰</span>
             </div>
+            {state.spectatorCount > 0 && (
+              <div style={{ display: 'flex', alignItems: 'center', gap: 6 }} title={`${state.spectatorCount} watching`}>
+                <span style={{ color: '#00BFFF', fontWeight: 'bold', fontSize: 11 }}>👁 {state.spectatorCount}</span>
+              </div>
+            )}
           </div>
         </div>
 
         {/* Players Counter */}
         <div style={{ display: 'flex', alignItems: 'center', gap: 8, paddingLeft: 20, borderLeft: '1px solid #00BFFF' }}>
+          {state.config && (
+            <span style={{ color: '#aaa', fontSize: 10 }}>{state.players.length}/{state.config.seats}</span>
+          )}
           {state.players.map((p: any, i: number) => (
             <div key={i} style={{ display: 'flex', alignItems: 'center', gap: 4, padding: '4px 10px', background: i === state.activePlayerIndex ? 'rgba(0,255,136,0.2)' : 'rgba(255,255,255,0.05)', borderRadius: 4, borderLeft: i === state.activePlayerIndex ? '2px solid #00FF88' : '2px solid #aaa' }}>
               <span style={{ color: i === state.activePlayerIndex ? '#00FFCC' : '#aaa', fontWeight: 'bold', fontSize: 10 }}>{p.name.slice(0, 8)}</span>
@@ -306,12 +622,17 @@ export default function PokerPage() {
 
 
       {/* Main Table */}
-      <Table state={state} actions={actions} />
+      <Table state={tableState} actions={actions} />
 
       {/* Pot Display */}
       <div className='pot-container'>
         <img style={{ height: 55, width: 55 }} src={'/old-assets/pot.svg'} alt="Pot" />
         <h4 style={{ margin: 0, color: 'white', fontSize: 18 }}>{state.pot}</h4>
+        {state.pots.length > 1 && state.pots.map((pot, i) => (
+          <div key={i} style={{ fontSize: 10, color: i === 0 ? '#FFD700' : '#00FFCC', whiteSpace: 'nowrap' }}>
+            {i === 0 ? 'Main' : `Side ${i}`}: {pot.amount} <span style={{ color: '#aaa' }}>({pot.eligiblePlayerIds.length}P)</span>
+          </div>
+        ))}
       </div>
 
       {/* Community Cards */}
@@ -359,9 +680,9 @@ export default function PokerPage() {
               </div>
             </div>
             <p style={{ fontSize: 13, margin: '10px 0 0 0', color: '#fff', fontStyle: 'italic' }}>
-              Opponent folded
+              Everyone else folded
             </p>
-            <button ref={nextRoundButtonRef}
+            {canDealNextHand && <button ref={nextRoundButtonRef}
               onClick={() => {
                 soundEffects.playWin()
                 actions.nextRound()
@@ -383,7 +704,7 @@ export default function PokerPage() {
               onMouseLeave={() => setIsNextRoundHovered(false)}
             >
               🎲 Next Round
-            </button>
+            </button>}
           </div>
         </div>
       )}
@@ -408,6 +729,17 @@ export default function PokerPage() {
         }}>
           <h3 style={{ color: '#00FFFF', textAlign: 'center', margin: '0 0 15px 0', fontSize: 15, textShadow: '0 0 10px rgba(0, 255, 255, 0.8)', fontWeight: 'bold' }}>📊 HAND COMPARISON</h3>
 
+          {/* Pot Awards */}
+          {state.winner.pots && state.winner.pots.length > 1 && (
+            <div style={{ marginBottom: 15, padding: 10, background: 'rgba(0, 255, 136, 0.1)', border: '2px solid #00FF88', borderRadius: 10 }}>
+              {state.winner.pots.map((pot, potIdx: number) => (
+                <p key={potIdx} style={{ margin: '2px 0', fontSize: 11, color: '#00FFCC' }}>
+                  <strong>{pot.name} ({pot.amount})</strong>: {pot.winners.map((w) => `${w.name} +${w.amount}`).join(', ')}
+                </p>
+              ))}
+            </div>
+          )}
+
           {/* Community Cards on Table */}
           <div style={{ marginBottom: 15, padding: 10, background: 'rgba(255, 215, 0, 0.1)', border: '2px solid #FFD700', borderRadius: 10 }}>
             <p style={{ margin: '0 0 8px 0', fontSize: 12, fontWeight: 'bold', color: '#FFD700', textAlign: 'center' }}>🃏 Community Cards</p>
@@ -434,7 +766,7 @@ export default function PokerPage() {
           </div>
 
           {state.winner.allHands.map((hand: any, idx: number) => {
-            const isWinner = hand.id === state.winner.id;
+            const isWinner = !!state.winner?.winners.some((w) => w.id === hand.id);
             return (
               <div key={idx} style={{
                 marginBottom: 12,
@@ -472,13 +804,13 @@ export default function PokerPage() {
                   ))}
                 </div>
 
-                {/* Hand Type and Score */}
+                {/* Hand Type and Description */}
                 <div style={{ textAlign: 'center', paddingTop: 6, borderTop: `1px solid ${isWinner ? '#00FF88' : '#FF6B35'}` }}>
                   <p style={{ margin: '3px 0', fontSize: 11, fontWeight: 'bold', color: isWinner ? '#00FF88' : '#FFB6D9' }}>
                     {hand.handType}
                   </p>
                   <p style={{ margin: '0', fontSize: 10, color: 'rgba(255,255,255,0.7)' }}>
-                    Score: {Math.floor(hand.score / 100000)}
+                    {hand.description}
                   </p>
                 </div>
               </div>
@@ -508,26 +840,40 @@ export default function PokerPage() {
             boxShadow: '0 0 50px rgba(255, 215, 0, 0.9), 0 0 70px rgba(255, 107, 53, 0.7)',
             backdropFilter: 'blur(5px)'
           }}>
-            <h1 style={{ fontSize: 48, margin: '0 0 12px 0', color: '#000', textShadow: '2px 2px 4px rgba(0, 0, 0, 0.3)' }}>🏆 WINNER 🏆</h1>
-            <h2 style={{ fontSize: 32, margin: '0 0 15px 0', color: '#1a1a1a', fontWeight: 'bold' }}>{state.winner.name}</h2>
-            <div style={{ display: 'flex', gap: 30, justifyContent: 'center', marginBottom: 15, flexWrap: 'wrap' }}>
-              <div>
-                <p style={{ margin: '0 0 5px 0', color: '#333', fontWeight: 'bold', fontSize: 12 }}>WON</p>
-                <p style={{ margin: 0, color: '#000', fontSize: 22, fontWeight: 'bold' }}>+{state.winner.potWon} 💰</p>
-              </div>
-              <div style={{ borderLeft: '2px solid #333', paddingLeft: 30 }}>
-                <p style={{ margin: '0 0 5px 0', color: '#333', fontWeight: 'bold', fontSize: 12 }}>HAND</p>
-                <p style={{ margin: 0, color: '#000', fontSize: 18, fontWeight: 'bold' }}>{state.winner.handType}</p>
+            <h1 style={{ fontSize: 48, margin: '0 0 12px 0', color: '#000', textShadow: '2px 2px 4px rgba(0, 0, 0, 0.3)' }}>{isChop ? '🤝 SPLIT POT 🤝' : '🏆 WINNER 🏆'}</h1>
+            {isChop ? (
+              <div style={{ display: 'flex', gap: 30, justifyContent: 'center', marginBottom: 15, flexWrap: 'wrap' }}>
+                {state.winner.winners.map((w, i: number) => (
+                  <div key={w.id} style={i > 0 ? { borderLeft: '2px solid #333', paddingLeft: 30 } : undefined}>
+                    <p style={{ margin: '0 0 5px 0', color: '#1a1a1a', fontWeight: 'bold', fontSize: 16 }}>{w.name}</p>
+                    <p style={{ margin: '0 0 5px 0', color: '#000', fontSize: 22, fontWeight: 'bold' }}>+{w.amount} 💰</p>
+                    <p style={{ margin: 0, color: '#333', fontSize: 12, fontWeight: 'bold' }}>{w.description || w.handType} · {w.chips}</p>
+                  </div>
+                ))}
               </div>
-              <div style={{ borderLeft: '2px solid #333', paddingLeft: 30 }}>
-                <p style={{ margin: '0 0 5px 0', color: '#333', fontWeight: 'bold', fontSize: 12 }}>TOTAL</p>
-                <p style={{ margin: 0, color: '#000', fontSize: 22, fontWeight: 'bold' }}>{state.winner.chips}</p>
-              </div>
-            </div>
+            ) : (
+              <>
+                <h2 style={{ fontSize: 32, margin: '0 0 15px 0', color: '#1a1a1a', fontWeight: 'bold' }}>{state.winner.name}</h2>
+                <div style={{ display: 'flex', gap: 30, justifyContent: 'center', marginBottom: 15, flexWrap: 'wrap' }}>
+                  <div>
+                    <p style={{ margin: '0 0 5px 0', color: '#333', fontWeight: 'bold', fontSize: 12 }}>WON</p>
+                    <p style={{ margin: 0, color: '#000', fontSize: 22, fontWeight: 'bold' }}>+{state.winner.potWon} 💰</p>
+                  </div>
+                  <div style={{ borderLeft: '2px solid #333', paddingLeft: 30 }}>
+                    <p style={{ margin: '0 0 5px 0', color: '#333', fontWeight: 'bold', fontSize: 12 }}>HAND</p>
+                    <p style={{ margin: 0, color: '#000', fontSize: 18, fontWeight: 'bold' }}>{state.winner.description || state.winner.handType}</p>
+                  </div>
+                  <div style={{ borderLeft: '2px solid #333', paddingLeft: 30 }}>
+                    <p style={{ margin: '0 0 5px 0', color: '#333', fontWeight: 'bold', fontSize: 12 }}>TOTAL</p>
+                    <p style={{ margin: 0, color: '#000', fontSize: 22, fontWeight: 'bold' }}>{state.winner.chips}</p>
+                  </div>
+                </div>
+              </>
+            )}
             <p style={{ fontSize: 14, margin: '12px 0 0 0', color: '#555', fontStyle: 'italic' }}>
               {state.winner.reason}
             </p>
-            <button ref={nextRoundButtonRef}
+            {canDealNextHand && <button ref={nextRoundButtonRef}
               onClick={() => {
                 soundEffects.playWin()
                 actions.nextRound()
@@ -549,7 +895,7 @@ export default function PokerPage() {
               onMouseLeave={() => setIsNextRoundHovered(false)}
             >
               🎲 Next Round
-            </button>
+            </button>}
           </div>
         </div>
       )}
@@ -569,7 +915,11 @@ export default function PokerPage() {
 
         {/* Action Buttons */}
         <div className='action-buttons' style={{ gap: 15, display: 'flex', justifyContent: 'center', flex: 1 }}>
-          {state.phase === 'idle' && state.players.length === 2 && state.players[0]?.id === state.playerId ? (
+          {state.isSpectator ? (
+            <div style={{ fontSize: 14, fontWeight: 'bold', color: '#00BFFF', textShadow: '0 0 10px rgba(0, 191, 255, 0.8)' }}>
+              👁 Spectating{state.config?.spectatorDelaySeconds ? ` (${state.config.spectatorDelaySeconds}s delay)` : ''}
+            </div>
+          ) : state.phase === 'idle' && canDealNextHand && state.players.length >= 2 && state.players[0]?.id === state.playerId ? (
             <button
               ref={startButtonRef}
               className='action-button'
@@ -581,27 +931,27 @@ export default function PokerPage() {
           ) : canAct && isPlayerTurn && !isPlayerAllIn ? (
             <>
               <button ref={callButtonRef} className='action-button' onClick={handleCheck} style={{ borderRadius: 25, padding: '12px 40px', background: 'linear-gradient(135deg, #00BFFF 0%, #00FFFF 100%)', color: '#000', fontWeight: 'bold', boxShadow: '0 0 15px rgba(0, 191, 255, 0.8)', border: '2px solid #00FFFF', cursor: 'pointer', fontSize: 14 }}>
-                {state.highBet > 0 ? `💰 CALL ($${state.highBet - (state.players[state.activePlayerIndex]?.roundBet || 0)})` : '✓ CHECK'}
+                {amountToCall > 0 ? `💰 CALL ($${amountToCall})` : '✓ CHECK'}
               </button>
 
               <button ref={foldButtonRef} className='fold-button' onClick={handleFold} style={{ borderRadius: 25, padding: '12px 40px', background: 'linear-gradient(135deg, #FF6B35 0%, #FF8C42 100%)', color: '#fff', fontWeight: 'bold', boxShadow: '0 0 15px rgba(255, 107, 53, 0.8)', border: '2px solid #FF8C42', cursor: 'pointer', fontSize: 14 }}>🚫 FOLD</button>
 
-              <button
+              {canRaise && <button
                 onClick={() => {
                   soundEffects.playBet()
                   setShowRaiseModal(true)
-                  setRaiseAmount(Math.max(10, (state.highBet || 10) + 10))
+                  setRaiseAmount(minRaiseTo)
                 }}
                 style={{ borderRadius: 25, padding: '12px 40px', background: 'linear-gradient(135deg, #FFD700 0%, #FFA500 100%)', color: '#000', fontWeight: 'bold', boxShadow: '0 0 15px rgba(255, 215, 0, 0.8)', border: '2px solid #FFD700', cursor: 'pointer', fontSize: 14 }}
               >
-                🔼 RAISE
-              </button>
+                🔼 {state.highBet > 0 ? 'RAISE' : 'BET'}
+              </button>}
             </>
           ) : canAct && isPlayerTurn && isPlayerAllIn ? (
             <div style={{ fontSize: 16, fontWeight: 'bold', color: '#FF69B4', textShadow: '0 0 15px rgba(255, 105, 180, 0.8)', animation: 'pulse 1s infinite' }}>
               💸 ALL-IN
             </div>
-          ) : state.phase === 'showdown' ? (
+          ) : state.phase === 'showdown' && canDealNextHand ? (
             <button ref={nextRoundButtonRef} className='action-button' onClick={handleNextRound} style={{ borderRadius: 25, padding: '12px 40px', fontSize: 16, fontWeight: 'bold', background: 'linear-gradient(135deg, #FFD700 0%, #FFA500 100%)', color: '#000', boxShadow: '0 0 20px rgba(255, 215, 0, 0.8)', border: 'none', cursor: 'pointer' }}>🎲 Next Round</button>
           ) : null}
         </div>
@@ -609,7 +959,7 @@ export default function PokerPage() {
         {/* Wait Status and Betting Info */}
         <div style={{ display: 'flex', alignItems: 'center', gap: 20, fontWeight: 'bold' }}>
           <div style={{ color: '#FFD700', fontSize: 13, textAlign: 'center', minWidth: '120px' }}>
-            {state.phase === 'idle' && state.players.length < 2 ? '⏳ Waiting for players...' : state.phase === 'idle' ? '' : `${state.players[state.activePlayerIndex]?.name}'s Turn`}
+            {state.phase === 'idle' && state.players.length < 2 ? '⏳ Waiting for players...' : state.phase === 'idle' ? '' : isWaitingForCards ? '🔑 Dealing...' : `${state.players[state.activePlayerIndex]?.name}'s Turn`}
           </div>
 
           {/* Betting Info */}
@@ -634,12 +984,42 @@ export default function PokerPage() {
         </div>
       </div>
 
+      {state.tournament && (
+        <TournamentPanel
+          tournament={state.tournament}
+          handNumber={state.handNumber}
+          playerId={state.playerId}
+        />
+      )}
+
+      {/* Verify Hand Modal */}
+      {/* Table Chat */}
+      <ChatPanel
+        messages={chat.messages}
+        players={state.players}
+        playerId={state.playerId}
+        canSend={!state.isSpectator && !!state.playerId}
+        isMuted={chat.isMuted}
+        onSend={chat.actions.sendChat}
+        onEmote={chat.actions.sendEmote}
+        onToggleMute={chat.actions.toggleMute}
+      />
+
+      {showVerifyHand && state.fairness?.seed && (
+        <VerifyHand
+          fairness={state.fairness}
+          players={state.players}
+          community={state.community}
+          onClose={() => setShowVerifyHand(false)}
+        />
+      )}
+
       {/* Raise Modal */}
       {showRaiseModal && (
         <div style={{ position: 'fixed', top: 0, left: 0, right: 0, bottom: 0, background: 'rgba(0,0,0,0.7)', display: 'flex', alignItems: 'center', justifyContent: 'center', zIndex: 1000 }}>
           <div style={{ background: 'linear-gradient(135deg, #0a0a14 0%, #16213e 100%)', padding: 30, borderRadius: 16, border: '3px solid #FFD700', boxShadow: '0 0 40px rgba(255, 215, 0, 0.6)', maxWidth: 500, width: '90%' }}>
             <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 20 }}>
-              <h2 style={{ margin: 0, color: '#FFD700', fontSize: 20 }}>Set Raise Amount</h2>
+              <h2 style={{ margin: 0, color: '#FFD700', fontSize: 20 }}>{state.highBet > 0 ? 'Raise To' : 'Set Bet Amount'}</h2>
               <button
                 onClick={() => setShowRaiseModal(false)}
                 style={{ background: '#FF6B35', color: 'white', border: 'none', borderRadius: '50%', width: 30, height: 30, cursor: 'pointer', fontWeight: 'bold', fontSize: 18 }}
@@ -649,27 +1029,27 @@ export default function PokerPage() {
             </div>
 
             {/* Slider */}
-            <div style={{ marginBottom: 20 }}>
+            {!isFixedLimit && <div style={{ marginBottom: 20 }}>
               <input
                 type="range"
-                min={state.highBet > 0 ? state.highBet : 1}
-                max={state.players[state.players.findIndex(p => p.id === state.playerId)]?.chips || 1000}
+                min={minRaiseTo}
+                max={maxRaiseTo}
                 value={raiseAmount}
                 onChange={(e) => setRaiseAmount(Number(e.target.value))}
                 style={{ width: '100%', height: 8, borderRadius: 5, background: 'linear-gradient(90deg, #00FF88 0%, #00FFCC 100%)', outline: 'none', cursor: 'pointer' }}
               />
-            </div>
+            </div>}
 
             {/* Preset Buttons */}
-            <div style={{ display: 'grid', gridTemplateColumns: 'repeat(5, 1fr)', gap: 10, marginBottom: 20 }}>
-              {['MIN', '1/4', '1/2', '3/4', 'ALL-IN'].map((label, i) => {
-                const playerChips = state.players[state.players.findIndex(p => p.id === state.playerId)]?.chips || 1000
-                const minBet = state.highBet > 0 ? state.highBet : 1
-                let amount = minBet
-                if (label === '1/4') amount = Math.floor(playerChips / 4)
-                if (label === '1/2') amount = Math.floor(playerChips / 2)
-                if (label === '3/4') amount = Math.floor((playerChips * 3) / 4)
-                if (label === 'ALL-IN') amount = playerChips
+            {!isFixedLimit && <div style={{ display: 'grid', gridTemplateColumns: 'repeat(5, 1fr)', gap: 10, marginBottom: 20 }}>
+              {['MIN', '1/4', '1/2', '3/4', maxRaiseTo < stackRaiseTo ? 'POT' : 'ALL-IN'].map((label, i) => {
+                const playerChips = currentPlayer?.chips || 0
+                const fractionOfStack = (fraction: number) => Math.min(maxRaiseTo, Math.max(minRaiseTo, (currentPlayer?.roundBet || 0) + Math.floor(playerChips * fraction)))
+                let amount = minRaiseTo
+                if (label === '1/4') amount = fractionOfStack(1 / 4)
+                if (label === '1/2') amount = fractionOfStack(1 / 2)
+                if (label === '3/4') amount = fractionOfStack(3 / 4)
+                if (label === 'ALL-IN' || label === 'POT') amount = maxRaiseTo
 
                 return (
                   <button
@@ -691,25 +1071,25 @@ export default function PokerPage() {
                   </button>
                 )
               })}
-            </div>
+            </div>}
 
             {/* Amount Display with +/- */}
             <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'center', gap: 20, marginBottom: 20, background: 'rgba(0,0,0,0.5)', padding: 15, borderRadius: 12, border: '2px solid #00BFFF' }}>
-              <button
-                onClick={() => setRaiseAmount(Math.max((state.highBet > 0 ? state.highBet : 1), raiseAmount - 10))}
+              {!isFixedLimit && <button
+                onClick={() => setRaiseAmount(Math.max(minRaiseTo, raiseAmount - 10))}
                 style={{ background: '#FF6B35', color: 'white', border: 'none', borderRadius: '50%', width: 40, height: 40, cursor: 'pointer', fontWeight: 'bold', fontSize: 20 }}
               >
                 −
-              </button>
+              </button>}
               <div style={{ fontSize: 32, fontWeight: 'bold', color: '#00FFCC', minWidth: 120, textAlign: 'center' }}>
                 ${raiseAmount}
               </div>
-              <button
-                onClick={() => setRaiseAmount(Math.min(state.players[state.players.findIndex(p => p.id === state.playerId)]?.chips || 1000, raiseAmount + 10))}
+              {!isFixedLimit && <button
+                onClick={() => setRaiseAmount(Math.min(maxRaiseTo, raiseAmount + 10))}
                 style={{ background: '#00FF88', color: '#000', border: 'none', borderRadius: '50%', width: 40, height: 40, cursor: 'pointer', fontWeight: 'bold', fontSize: 20 }}
               >
                 +
-              </button>
+              </button>}
             </div>
 
             {/* Confirm Button */}
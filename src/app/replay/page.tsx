@@ -0,0 +1,135 @@
+'use client'
+import React, { Suspense, useEffect } from 'react'
+import Image from 'next/image'
+import Link from 'next/link'
+import { useSearchParams } from 'next/navigation'
+import Table from '../components/Table'
+import Card from '../components/Card'
+import useHandReplay from '../hooks/useHandReplay'
+import { replayPageUrl, replayViewerId } from '../utils/hand-replay'
+import '../poker.css'
+
+const controlButtonStyle: React.CSSProperties = {
+  padding: '6px 12px',
+  background: 'rgba(0, 191, 255, 0.2)',
+  color: '#00FFFF',
+  border: '2px solid #00BFFF',
+  borderRadius: 6,
+  cursor: 'pointer',
+  fontWeight: 'bold',
+  fontSize: 13,
+}
+
+function HandReplayer() {
+  const searchParams = useSearchParams()
+  const gameId = searchParams.get('game') || ''
+  const handNumber = Number(searchParams.get('hand'))
+  const initialStep = Number(searchParams.get('step')) || 0
+
+  const { history, steps, step, current, error, isLoading, isPlaying, actions } = useHandReplay(gameId, handNumber, initialStep)
+
+  // Keep the address bar pointing at this step so it can be shared as is
+  useEffect(() => {
+    if (!history) return
+    window.history.replaceState(null, '', replayPageUrl(gameId, handNumber, step))
+  }, [history, gameId, handNumber, step])
+
+  if (!gameId || !Number.isInteger(handNumber) || handNumber < 1) {
+    return <div style={{ padding: 40, color: '#FF6B6B' }}>Replay links look like /replay?game=&lt;gameId&gt;&amp;hand=&lt;handNumber&gt;</div>
+  }
+  if (error) {
+    return <div style={{ padding: 40, color: '#FF6B6B' }}>Could not load hand #{handNumber}: {error}</div>
+  }
+  if (isLoading || !history || !current) {
+    return <div style={{ padding: 40, color: '#00BFFF' }}>Loading hand #{handNumber}…</div>
+  }
+
+  const tableState = {
+    players: current.players,
+    playerId: replayViewerId(history) || '',
+    phase: current.phase,
+    config: history.config,
+    turnClock: null,
+  }
+
+  return (
+    <div className="poker-table--wrapper" style={{ display: 'flex', flexDirection: 'column', position: 'relative', width: '100%', height: '100vh', paddingTop: '50px', paddingBottom: '70px' }}>
+      {/* Top Info Navbar */}
+      <div style={{ position: 'fixed', top: 0, left: 0, right: 0, zIndex: 300, background: 'linear-gradient(90deg, rgba(0,0,0,0.85) 0%, rgba(22,33,62,0.9) 100%)', borderBottom: '2px solid #00BFFF', boxShadow: '0 4px 20px rgba(0, 191, 255, 0.3)', display: 'flex', gap: 20, alignItems: 'center', padding: '12px 20px', height: '50px' }}>
+        <Link href="/" style={{ color: '#00FFCC', fontWeight: 'bold', fontSize: 12, textDecoration: 'none' }}>← Back to table</Link>
+        <div style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+          <span style={{ color: '#FFD700', fontWeight: 'bold', fontSize: 12 }}>Game ID:</span>
+          <span style={{ color: '#00FFCC', fontWeight: 'bold', fontSize: 11 }}>{history.gameId}</span>
+        </div>
+        <div style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+          <span style={{ color: '#FF69B4', fontWeight: 'bold', fontSize: 11 }}>Hand:</span>
+          <span style={{ color: '#FFED4E', fontWeight: 'bold', fontSize: 11 }}>#{history.handNumber}</span>
+        </div>
+        <div style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+          <span style={{ color: '#FFD700', fontWeight: 'bold', fontSize: 11 }}>Blinds:</span>
+          <span style={{ color: '#FFED4E', fontWeight: 'bold', fontSize: 11 }}>
+            {history.config.smallBlind}/{history.config.bigBlind}{history.config.ante > 0 ? ` (ante ${history.config.ante})` : ''}
+          </span>
+        </div>
+        <span style={{ color: '#aaa', fontSize: 11 }}>{new Date(history.startedAt).toLocaleString()}</span>
+      </div>
+
+      {/* Main Table */}
+      <Table state={tableState} />
+
+      {/* Pot Display */}
+      <div className='pot-container'>
+        <Image height={55} width={55} src='/old-assets/pot.svg' alt="Pot" />
+        <h4 style={{ margin: 0, color: 'white', fontSize: 18 }}>{current.pot}</h4>
+      </div>
+
+      {/* Community Cards */}
+      <div className="community-card-container">
+        {current.community.map((c, i) => (
+          <Card key={i} cardData={c} isShowdownCard={current.phase === 'showdown'} />
+        ))}
+      </div>
+
+      {/* Playback Controls */}
+      <div style={{ position: 'fixed', bottom: 0, left: 0, right: 0, zIndex: 300, background: 'rgba(0,0,0,0.85)', borderTop: '2px solid #00BFFF', display: 'flex', gap: 10, alignItems: 'center', padding: '12px 20px' }}>
+        <button onClick={() => actions.seek(0)} disabled={step === 0} title="First step" style={controlButtonStyle}>⏮</button>
+        <button onClick={actions.stepBack} disabled={step === 0} title="Step back" style={controlButtonStyle}>◀</button>
+        {isPlaying ? (
+          <button onClick={actions.pause} title="Pause" style={controlButtonStyle}>⏸</button>
+        ) : (
+          <button onClick={actions.play} title="Play" style={controlButtonStyle}>▶</button>
+        )}
+        <button onClick={actions.stepForward} disabled={step === steps.length - 1} title="Step forward" style={controlButtonStyle}>▶|</button>
+        <button onClick={() => actions.seek(steps.length - 1)} disabled={step === steps.length - 1} title="Last step" style={controlButtonStyle}>⏭</button>
+
+        <input
+          type="range"
+          min={0}
+          max={steps.length - 1}
+          value={step}
+          onChange={(e) => actions.seek(Number(e.target.value))}
+          style={{ flex: 1, accentColor: '#00BFFF' }}
+        />
+        <span style={{ color: '#aaa', fontSize: 11, minWidth: 50 }}>{step + 1}/{steps.length}</span>
+        <span style={{ color: '#FFED4E', fontWeight: 'bold', fontSize: 12, minWidth: 220 }}>{current.label}</span>
+
+        <button
+          onClick={() => navigator.clipboard.writeText(window.location.href)}
+          title="Copy a link to this step"
+          style={controlButtonStyle}
+        >
+          🔗 Copy link
+        </button>
+      </div>
+    </div>
+  )
+}
+
+// useSearchParams needs a Suspense boundary for the page to prerender
+export default function ReplayPage() {
+  return (
+    <Suspense fallback={null}>
+      <HandReplayer />
+    </Suspense>
+  )
+}
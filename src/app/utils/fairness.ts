@@ -0,0 +1,94 @@
+// Browser-side check of the server's provably fair shuffle
+// Must stay byte-for-byte identical to server/game/fairness.ts
+
+export type DeckCard = { suit: string; rank: string }
+
+// A card as it arrived in a gameState payload
+export type SeenCard = { suit: string; rank?: string }
+
+export type HandFairness = {
+  handNumber: number
+  commitment: string
+  seed: string | null
+  dealtPlayerIds: string[]
+  holeCardCount?: number
+  deckSize?: number
+}
+
+export type DealCheck = {
+  commitmentValid: boolean
+  holeCards: Record<string, DeckCard[]>
+  board: DeckCard[]
+}
+
+// Canonical deck order, same as createDeck() on the server
+// A smaller deck keeps the highest ranks: short-deck is 36 cards, ace down to six
+const SUITS = ['hearts', 'diamonds', 'clubs', 'spades']
+const RANKS = ['A', 'K', 'Q', 'J', '10', '9', '8', '7', '6', '5', '4', '3', '2']
+
+const WORD_RANGE = 0x100000000
+
+async function sha256(text: string): Promise<Uint8Array> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text))
+  return new Uint8Array(digest)
+}
+
+function toHex(bytes: Uint8Array) {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('')
+}
+
+export async function commitToSeed(seed: string) {
+  return toHex(await sha256(seed))
+}
+
+// Uint32 words from SHA-256 of `${seed}:${counter}`, fetched a digest at a time
+function randomWords(seed: string) {
+  let counter = 0
+  let buffer: number[] = []
+  return async () => {
+    if (buffer.length === 0) {
+      const view = new DataView((await sha256(`${seed}:${counter++}`)).buffer)
+      buffer = Array.from({ length: 8 }, (_, i) => view.getUint32(i * 4))
+    }
+    return buffer.shift()!
+  }
+}
+
+export async function shuffleDeck(seed: string, deckSize = 52): Promise<DeckCard[]> {
+  const ranks = RANKS.slice(0, deckSize / SUITS.length)
+  const deck = SUITS.flatMap((suit) => ranks.map((rank) => ({ suit, rank })))
+  const nextWord = randomWords(seed)
+
+  for (let i = deck.length - 1; i > 0; i--) {
+    const bound = i + 1
+    const limit = Math.floor(WORD_RANGE / bound) * bound
+    let word = await nextWord()
+    while (word >= limit) word = await nextWord()
+    const j = word % bound
+    ;[deck[i], deck[j]] = [deck[j], deck[i]]
+  }
+
+  return deck
+}
+
+// Rebuild the deal from a revealed seed: the server deals from the end of the deck,
+// each player's hole cards (two, four in Omaha) in dealing order, then the five board cards
+export async function recomputeDeal(fairness: HandFairness): Promise<DealCheck | null> {
+  if (!fairness.seed) return null
+
+  const commitmentValid = (await commitToSeed(fairness.seed)) === fairness.commitment
+  const dealOrder = (await shuffleDeck(fairness.seed, fairness.deckSize)).reverse()
+
+  const perPlayer = fairness.holeCardCount || 2
+  const holeCards: Record<string, DeckCard[]> = {}
+  fairness.dealtPlayerIds.forEach((playerId, i) => {
+    holeCards[playerId] = dealOrder.slice(i * perPlayer, (i + 1) * perPlayer)
+  })
+  const boardStart = fairness.dealtPlayerIds.length * perPlayer
+
+  return { commitmentValid, holeCards, board: dealOrder.slice(boardStart, boardStart + 5) }
+}
+
+export function sameCard(a?: SeenCard | null, b?: SeenCard | null) {
+  return !!a && !!b && a.suit === b.suit && a.rank === b.rank
+}
@@ -0,0 +1,205 @@
+// Step-by-step replay of a recorded hand, as served by GET /api/games/:gameId/hands/:handNumber
+// Mirrors HandHistory in server/game/types.ts
+
+export type ReplayCard = { suit: string; rank: string }
+
+export type Street = 'preflop' | 'flop' | 'turn' | 'river'
+
+export type HandHistoryPlayer = {
+  id: string
+  name: string
+  seat: number
+  walletAddress: string | null
+  startingChips: number
+  holeCards: ReplayCard[] // Empty unless shown down or our own
+  shownDown: boolean
+  handDescription: string | null
+}
+
+export type HandHistoryAction = {
+  street: Street
+  playerId: string
+  type: 'ante' | 'smallBlind' | 'bigBlind' | 'fold' | 'check' | 'call' | 'bet' | 'raise'
+  amount: number
+  roundBet: number
+  isAllIn: boolean
+}
+
+export type HandHistory = {
+  handId: string
+  gameId: string
+  handNumber: number
+  startedAt: number
+  endedAt: number
+  config: { variant?: string; smallBlind: number; bigBlind: number; ante: number; seats: number }
+  buttonIndex: number
+  players: HandHistoryPlayer[]
+  actions: HandHistoryAction[]
+  board: ReplayCard[]
+  awards: { playerId: string; amount: number; potName: string }[]
+}
+
+// One seat at one step, shaped like a player in a live gameState so Table and PlayerSeat can draw it
+export type ReplayPlayer = {
+  id: string
+  name: string
+  walletAddress?: string
+  chips: number
+  bet: number // Chips committed this hand, as in the live game
+  roundBet: number
+  folded: boolean
+  isActive: boolean // Highlighted as the player who just acted
+  hasDealerChip: boolean
+  hand: (ReplayCard | null)[] // null for a card still face down
+}
+
+export type ReplayStep = {
+  label: string
+  actorId: string | null
+  phase: Street | 'showdown'
+  players: ReplayPlayer[]
+  community: ReplayCard[]
+  pot: number
+}
+
+const BOARD_SIZE: Record<Street, number> = { preflop: 0, flop: 3, turn: 4, river: 5 }
+const STREETS: Street[] = ['preflop', 'flop', 'turn', 'river']
+const STREET_NAMES: Record<Street, string> = { preflop: 'Preflop', flop: 'Flop', turn: 'Turn', river: 'River' }
+const SUIT_SYMBOLS: Record<string, string> = { hearts: '♥', diamonds: '♦', clubs: '♣', spades: '♠' }
+
+const HTTP_URL = process.env.NEXT_PUBLIC_API_URL
+  || (process.env.NEXT_PUBLIC_WEBSOCKET_URL || 'ws://localhost:3001').replace(/^ws/, 'http')
+
+// The seat whose hole cards came back without being shown down is the one we are replaying for
+export function replayViewerId(history: HandHistory): string | null {
+  return history.players.find((p) => !p.shownDown && p.holeCards.length > 0)?.id || null
+}
+
+function formatCard(card: ReplayCard) {
+  return `${card.rank}${SUIT_SYMBOLS[card.suit] || '?'}`
+}
+
+function describeAction(action: HandHistoryAction, name: string): string {
+  const allIn = action.isAllIn ? ' (all-in)' : ''
+  switch (action.type) {
+    case 'ante': return `${name} posts the ante ${action.amount}`
+    case 'smallBlind': return `${name} posts small blind ${action.amount}`
+    case 'bigBlind': return `${name} posts big blind ${action.amount}`
+    case 'fold': return `${name} folds`
+    case 'check': return `${name} checks`
+    case 'call': return `${name} calls ${action.amount}${allIn}`
+    case 'bet': return `${name} bets ${action.amount}${allIn}`
+    case 'raise': return `${name} raises to ${action.roundBet}${allIn}`
+  }
+}
+
+/**
+ * Turn a recorded hand into the table as it stood after each action
+ * Step 0 is the deal with blinds and antes posted, the last step pays out the pots
+ */
+export function buildReplaySteps(history: HandHistory): ReplayStep[] {
+  const viewerId = replayViewerId(history)
+  const steps: ReplayStep[] = []
+  const nameOf = (playerId: string) => history.players.find((p) => p.id === playerId)?.name || 'Unknown'
+
+  let street: Street = 'preflop'
+  let showdown = false
+  let players: ReplayPlayer[] = history.players.map((p) => ({
+    id: p.id,
+    name: p.name,
+    walletAddress: p.walletAddress || undefined,
+    chips: p.startingChips,
+    bet: 0,
+    roundBet: 0,
+    folded: false,
+    isActive: false,
+    hasDealerChip: p.seat === history.buttonIndex,
+    hand: Array(history.config.variant === 'plo' ? 4 : 2).fill(null),
+  }))
+
+  const snapshot = (label: string, actorId: string | null) => {
+    steps.push({
+      label,
+      actorId,
+      phase: showdown ? 'showdown' : street,
+      players: players.map((player) => {
+        const record = history.players.find((p) => p.id === player.id)!
+        const visible = record.id === viewerId || (showdown && record.shownDown)
+        return { ...player, isActive: player.id === actorId, hand: visible ? record.holeCards : player.hand }
+      }),
+      community: history.board.slice(0, BOARD_SIZE[street]),
+      pot: players.reduce((sum, p) => sum + p.bet, 0),
+    })
+  }
+
+  const dealStreet = (next: Street) => {
+    street = next
+    players = players.map((p) => ({ ...p, roundBet: 0 }))
+    const cards = history.board.slice(0, BOARD_SIZE[next])
+    snapshot(`${STREET_NAMES[next]}: ${cards.map(formatCard).join(' ')}`, null)
+  }
+
+  const forced = history.actions.filter((a) => a.type === 'ante' || a.type === 'smallBlind' || a.type === 'bigBlind')
+  const play = (action: HandHistoryAction) => {
+    players = players.map((p) => p.id !== action.playerId ? p : {
+      ...p,
+      chips: p.chips - action.amount,
+      bet: p.bet + action.amount,
+      // Antes go straight to the pot, folds and checks leave the round bet as it was
+      roundBet: action.type === 'ante' || action.type === 'fold' || action.type === 'check' ? p.roundBet : action.roundBet,
+      folded: p.folded || action.type === 'fold',
+    })
+  }
+
+  forced.forEach(play)
+  snapshot(`Hand #${history.handNumber} dealt`, null)
+
+  history.actions
+    .filter((a) => !forced.includes(a))
+    .forEach((action) => {
+      while (STREETS.indexOf(street) < STREETS.indexOf(action.street)) {
+        dealStreet(STREETS[STREETS.indexOf(street) + 1])
+      }
+      play(action)
+      snapshot(describeAction(action, nameOf(action.playerId)), action.playerId)
+    })
+
+  // An all-in hand runs out the rest of the board with no more betting
+  const lastStreet = STREETS.slice().reverse().find((s) => BOARD_SIZE[s] <= history.board.length) || 'preflop'
+  while (STREETS.indexOf(street) < STREETS.indexOf(lastStreet)) {
+    dealStreet(STREETS[STREETS.indexOf(street) + 1])
+  }
+
+  if (history.players.some((p) => p.shownDown)) {
+    showdown = true
+    snapshot('Showdown', null)
+  }
+
+  players = players.map((p) => ({
+    ...p,
+    bet: 0,
+    roundBet: 0,
+    chips: p.chips + history.awards.filter((a) => a.playerId === p.id).reduce((sum, a) => sum + a.amount, 0),
+  }))
+  const winners = history.awards.map((a) => {
+    const hand = history.players.find((p) => p.id === a.playerId)?.handDescription
+    return `${nameOf(a.playerId)} wins ${a.amount}${hand ? ` with ${hand}` : ''}`
+  })
+  snapshot(winners.join(', ') || 'Hand over', null)
+
+  return steps
+}
+
+// Header carrying our session token, so the server adds our own hole cards
+export const SESSION_TOKEN_HEADER = 'X-Session-Token'
+
+export function handHistoryUrl(gameId: string, handNumber: number) {
+  return `${HTTP_URL}/api/games/${encodeURIComponent(gameId)}/hands/${handNumber}`
+}
+
+// Link to the replayer page, optionally opened at a given step
+export function replayPageUrl(gameId: string, handNumber: number, step?: number) {
+  const params = new URLSearchParams({ game: gameId, hand: String(handNumber) })
+  if (step) params.set('step', String(step))
+  return `/replay?${params.toString()}`
+}
@@ -0,0 +1,59 @@
+// Sorting, filtering and quick seat for the lobby's table list
+// TableSummary mirrors server/game/lobby.ts
+
+export type TableCurrency = 'play' | 'usdc'
+export type RebuyPolicy = 'auto' | 'none'
+
+export type TableSummary = {
+  gameId: string
+  variant: string
+  bettingStructure: string
+  smallBlind: number
+  bigBlind: number
+  ante: number
+  seats: number
+  seatsFilled: number
+  startingStack: number
+  buyInUsdc: number
+  rebuyPolicy: RebuyPolicy
+  currency: TableCurrency
+  averagePot: number
+  handsPlayed: number
+  handInProgress: boolean
+  spectatorDelaySeconds: number
+  tournament: boolean // A sit-and-go still taking players
+}
+
+export type LobbySort = 'players' | 'stakes' | 'averagePot'
+
+export type LobbyFilter = {
+  variant: string | 'any'
+  currency: TableCurrency | 'any'
+  maxBigBlind: number | null // No limit when null
+}
+
+export const DEFAULT_LOBBY_FILTER: LobbyFilter = { variant: 'any', currency: 'any', maxBigBlind: null }
+
+export const VARIANT_NAMES: Record<string, string> = { holdem: "Hold'em", plo: 'Omaha', shortdeck: '6+' }
+
+export const STRUCTURE_NAMES: Record<string, string> = { 'no-limit': 'NL', 'pot-limit': 'PL', 'fixed-limit': 'FL' }
+
+export function filterTables(tables: TableSummary[], filter: LobbyFilter) {
+  return tables.filter((t) =>
+    (filter.variant === 'any' || t.variant === filter.variant)
+    && (filter.currency === 'any' || t.currency === filter.currency)
+    && (filter.maxBigBlind === null || t.bigBlind <= filter.maxBigBlind)
+  )
+}
+
+// Biggest first, ties broken by how full the table is
+export function sortTables(tables: TableSummary[], sort: LobbySort) {
+  const key = (t: TableSummary) => (sort === 'stakes' ? t.bigBlind : sort === 'averagePot' ? t.averagePot : t.seatsFilled)
+  return [...tables].sort((a, b) => key(b) - key(a) || b.seatsFilled - a.seatsFilled)
+}
+
+// The table a quick seat joins: the fullest one that still has room, then the one with the most action
+export function pickQuickSeat(tables: TableSummary[], filter: LobbyFilter): TableSummary | null {
+  const open = filterTables(tables, filter).filter((t) => t.seatsFilled < t.seats)
+  return open.sort((a, b) => b.seatsFilled - a.seatsFilled || b.averagePot - a.averagePot)[0] || null
+}
@@ -0,0 +1,147 @@
+// Browser side of the trustless deal (SRA mental poker)
+// The prime and card encoding must stay identical to server/game/sra.ts
+
+import type { DeckCard } from './fairness'
+
+export type DealStep = 'shuffle' | 'lock' | 'keys'
+export type DealData = string[] | Record<string, string>
+
+// Public deal state, see projectDealSession on the server
+export type DealState = {
+  gameId: string
+  handNumber: number
+  playerIds: string[]
+  stage: DealStep
+  turnPlayerId: string | null
+  deck: string[]
+  holePositions: Record<string, number[]>
+  communityPositions: number[]
+  request: { reason: 'holes' | 'community' | 'showdown'; required: Record<string, number[]> } | null
+  keys: Record<string, Record<string, string>>
+  transcriptLength: number
+  transcriptHash: string
+}
+
+// An SRA key pair: lock with e, unlock with d
+export type SraKey = { e: bigint; d: bigint }
+
+// RFC 3526 2048-bit MODP group prime, a safe prime
+export const SRA_PRIME = BigInt(
+  '0xFFFFFFFFFFFFFFFFC90FDAA22168C234C4C6628B80DC1CD129024E088A67CC74020BBEA63B139B22' +
+  '514A08798E3404DDEF9519B3CD3A431B302B0A6DF25F14374FE1356D6D51C245E485B576625E7EC6F4' +
+  '4C42E9A637ED6B0BFF5CB6F406B7EDEE386BFB5A899FA5AE9F24117C4B1FE649286651ECE45B3DC200' +
+  '7CB8A163BF0598DA48361C55D39A69163FA8FD24CF5F83655D23DCA3AD961C62F356208552BB9ED529' +
+  '077096966D670C354E4ABC9804F1746C08CA18217C32905E462E36CE3BE39E772C180E86039B2783A2' +
+  'EC07A28FB5C55DF06F4C52C9DE2BCBF6955817183995497CEA956AE515D2261898FA051015728E5A8A' +
+  'ACAA68FFFFFFFFFFFFFFFF'
+)
+const ORDER = SRA_PRIME - 1n
+
+// Canonical deck order, same as createDeck() on the server
+const SUITS = ['hearts', 'diamonds', 'clubs', 'spades']
+const RANKS = ['A', 'K', 'Q', 'J', '10', '9', '8', '7', '6', '5', '4', '3', '2']
+const DECK: DeckCard[] = SUITS.flatMap((suit) => RANKS.map((rank) => ({ suit, rank })))
+
+export function modPow(base: bigint, exponent: bigint, modulus: bigint) {
+  let result = 1n
+  let b = base % modulus
+  let e = exponent
+  while (e > 0n) {
+    if (e & 1n) result = (result * b) % modulus
+    b = (b * b) % modulus
+    e >>= 1n
+  }
+  return result
+}
+
+function modInverse(value: bigint, modulus: bigint) {
+  let [r0, r1] = [modulus, value % modulus]
+  let [t0, t1] = [0n, 1n]
+  while (r1 !== 0n) {
+    const q = r0 / r1
+    ;[r0, r1] = [r1, r0 - q * r1]
+    ;[t0, t1] = [t1, t0 - q * t1]
+  }
+  return r0 === 1n ? ((t0 % modulus) + modulus) % modulus : null
+}
+
+const toHex = (value: bigint) => value.toString(16)
+const fromHex = (hex: string) => BigInt('0x' + hex)
+
+// Card i of the canonical deck is encoded as (i + 2)^2 mod p
+const ENCODINGS = DECK.map((_, i) => toHex(modPow(BigInt(i + 2), 2n, SRA_PRIME)))
+
+function randomBigInt(bytes: number) {
+  const buffer = crypto.getRandomValues(new Uint8Array(bytes))
+  return BigInt('0x' + Array.from(buffer, (b) => b.toString(16).padStart(2, '0')).join(''))
+}
+
+// Uniform index below bound, by rejection sampling
+function randomIndex(bound: number) {
+  const limit = Math.floor(0x100000000 / bound) * bound
+  let word = crypto.getRandomValues(new Uint32Array(1))[0]
+  while (word >= limit) word = crypto.getRandomValues(new Uint32Array(1))[0]
+  return word % bound
+}
+
+export function generateSraKey(): SraKey {
+  for (;;) {
+    const e = randomBigInt(32) | 1n
+    const d = modInverse(e, ORDER)
+    if (e > 1n && d !== null) return { e, d }
+  }
+}
+
+// Lock every card with one key and shuffle the deck
+export function shuffleAndLock(deck: string[], key: SraKey) {
+  const locked = deck.map((card) => modPow(fromHex(card), key.e, SRA_PRIME))
+  for (let i = locked.length - 1; i > 0; i--) {
+    const j = randomIndex(i + 1)
+    ;[locked[i], locked[j]] = [locked[j], locked[i]]
+  }
+  return locked.map(toHex)
+}
+
+// Swap the shuffle lock for a separate lock per card, in one exponentiation
+export function relockPerCard(deck: string[], shuffleKey: SraKey, cardKeys: SraKey[]) {
+  return deck.map((card, i) => toHex(modPow(fromHex(card), (shuffleKey.d * cardKeys[i].e) % ORDER, SRA_PRIME)))
+}
+
+// Open a card once every player's key for it is known
+export function openCard(ciphertext: string, decryptionKeys: bigint[]): DeckCard | null {
+  const plain = decryptionKeys.reduce((value, key) => modPow(value, key, SRA_PRIME), fromHex(ciphertext))
+  const index = ENCODINGS.indexOf(toHex(plain))
+  return index >= 0 ? DECK[index] : null
+}
+
+// Read our own hole cards once everyone else has published their keys for them
+export function readHoleCards(deal: DealState, playerId: string, cardKeys: SraKey[]) {
+  const positions = deal.holePositions[playerId] || []
+  const others = deal.playerIds.filter((id) => id !== playerId)
+  if (positions.length === 0 || !positions.every((p) => others.every((id) => deal.keys[p]?.[id]))) return null
+
+  return positions.map((p) => openCard(deal.deck[p], [...others.map((id) => fromHex(deal.keys[p][id])), cardKeys[p].d]))
+}
+
+export function keysFor(positions: number[], cardKeys: SraKey[]) {
+  return Object.fromEntries(positions.map((p) => [String(p), toHex(cardKeys[p].d)]))
+}
+
+// ====== Signing ======
+
+export async function generateSigningKey() {
+  const pair = await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, false, ['sign', 'verify'])
+  const publicKey = await crypto.subtle.exportKey('jwk', pair.publicKey)
+  return { privateKey: pair.privateKey, publicKey }
+}
+
+// Same string as signedDealPayload on the server
+export function signedDealPayload(gameId: string, handNumber: number, step: DealStep, data: DealData) {
+  return JSON.stringify({ gameId, handNumber, step, data })
+}
+
+// WebCrypto ECDSA signatures are already r || s, sent as hex
+export async function signDealMessage(privateKey: CryptoKey, payload: string) {
+  const signature = await crypto.subtle.sign({ name: 'ECDSA', hash: 'SHA-256' }, privateKey, new TextEncoder().encode(payload))
+  return Array.from(new Uint8Array(signature), (b) => b.toString(16).padStart(2, '0')).join('')
+}